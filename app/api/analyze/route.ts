@@ -0,0 +1,40 @@
+import type { NextRequest } from "next/server";
+import { analyzeImage } from "@/lib/image/analyze";
+import { readUploadedFiles } from "@/lib/image/request";
+import { runQueue } from "@/lib/image/scheduler";
+
+export async function POST(request: NextRequest) {
+  try {
+    const upload = await readUploadedFiles(request);
+    if (!upload.ok) {
+      return upload.response;
+    }
+    const { files, buffers } = upload.value;
+
+    const reports = await runQueue(files, async (file, index) => {
+      try {
+        return {
+          inputName: file.name,
+          ...(await analyzeImage(buffers[index], file.name)),
+        };
+      } catch (error) {
+        return {
+          inputName: file.name,
+          error: error instanceof Error ? error.message : "Failed to analyze image.",
+        };
+      }
+    });
+
+    return Response.json({ files: reports });
+  } catch (error) {
+    console.error("analyze failed", error);
+    return Response.json(
+      {
+        error: error instanceof Error ? error.message : "Failed to analyze image.",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export const runtime = "nodejs";
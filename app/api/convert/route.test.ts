@@ -0,0 +1,91 @@
+import { expect, test } from "bun:test";
+import type { NextRequest } from "next/server";
+import sharp from "sharp";
+import { createZipStream } from "@/lib/image/archive";
+import { POST as estimate } from "../estimate/route";
+import { POST as convert } from "./route";
+
+function sky() {
+  return sharp({
+    create: { width: 200, height: 100, channels: 3, background: "#3366cc" },
+  })
+    .jpeg()
+    .toBuffer();
+}
+
+function post(formData: FormData) {
+  return new Request("http://localhost/api", {
+    method: "POST",
+    body: formData,
+  }) as NextRequest;
+}
+
+async function upload(fields: Record<string, string>) {
+  const formData = new FormData();
+  formData.append("files", new File([new Uint8Array(await sky())], "sky.jpg"));
+  for (const [key, value] of Object.entries(fields)) formData.set(key, value);
+  return post(formData);
+}
+
+async function zipOf(names: string[]) {
+  const zip = createZipStream();
+  const image = await sky();
+  for (const name of names) zip.append(name, image);
+  const [data] = await Promise.all([
+    new Response(zip.body).arrayBuffer(),
+    zip.finalize(),
+  ]);
+  return new File([data], "album.zip");
+}
+
+test("estimate reports what convert returns", async () => {
+  const fields = { format: "webp", quality: "60", width: "120" };
+  const estimated = await estimate(await upload(fields));
+  const converted = await convert(await upload(fields));
+  expect(estimated.status).toBe(200);
+  expect(converted.status).toBe(200);
+
+  const {
+    files: [report],
+  } = await estimated.json();
+  const body = Buffer.from(await converted.arrayBuffer());
+  expect(converted.headers.get("content-type")).toBe("image/webp");
+  expect(converted.headers.get("content-disposition")).toContain(`"${report.name}"`);
+  expect(report.format).toBe("webp");
+  expect(report.outputSize).toBe(body.length);
+  expect((await sharp(body).metadata()).width).toBe(120);
+});
+
+test("files sent as text are a field error", async () => {
+  const formData = new FormData();
+  formData.append("files", "not a file");
+  const response = await convert(post(formData));
+  expect(response.status).toBe(400);
+  expect((await response.json()).fields.files).toBeString();
+});
+
+test("override indexes count uploads, not the images unpacked from them", async () => {
+  const formData = new FormData();
+  formData.append("files", await zipOf(["dir/a.jpg", "dir/b.jpg", "dir/c.jpg"]));
+  formData.append("files", new File([new Uint8Array(await sky())], "photo.jpg"));
+  formData.set("overrides", JSON.stringify({ "1": { format: "png" } }));
+  const response = await estimate(post(formData));
+  expect(response.status).toBe(200);
+  const { files } = await response.json();
+  expect(
+    files.map((report: { inputName: string; format: string }) => [
+      report.inputName,
+      report.format,
+    ])
+  ).toEqual([
+    ["dir/a.jpg", "jpeg"],
+    ["dir/b.jpg", "jpeg"],
+    ["dir/c.jpg", "jpeg"],
+    ["photo.jpg", "png"],
+  ]);
+
+  formData.set("overrides", JSON.stringify({ "1": { quality: 500 } }));
+  const invalid = await estimate(post(formData));
+  expect(invalid.status).toBe(400);
+  expect(Object.keys((await invalid.json()).fields)).toEqual(["files.1.quality"]);
+});
@@ -0,0 +1,18 @@
+import { getCodecSupport } from "@/lib/image/codecs";
+import { encoders } from "@/lib/image/formats";
+import type { EncodableFormat } from "@/lib/image/types";
+
+function describe(format: EncodableFormat) {
+  const { label, mime, extension } = encoders[format];
+  return { format, label, mime, extension };
+}
+
+export async function GET() {
+  const { input, output } = await getCodecSupport();
+  return Response.json({
+    input: input.map(describe),
+    output: output.map(describe),
+  });
+}
+
+export const runtime = "nodejs";
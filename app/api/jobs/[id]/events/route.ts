@@ -0,0 +1,63 @@
+import type { NextRequest } from "next/server";
+import { getJobStore } from "@/lib/jobs/store";
+import { fileEvent, isFinished, type JobEvent } from "@/lib/jobs/types";
+
+type Context = { params: Promise<{ id: string }> };
+
+export async function GET(request: NextRequest, { params }: Context) {
+  const { id } = await params;
+  const store = getJobStore();
+  const job = await store.get(id);
+  if (!job) {
+    return Response.json({ error: "Job not found." }, { status: 404 });
+  }
+
+  const encoder = new TextEncoder();
+  let unsubscribe = () => {};
+
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (event: JobEvent) => {
+        controller.enqueue(
+          encoder.encode(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`)
+        );
+      };
+      let closed = false;
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        unsubscribe();
+        controller.close();
+      };
+
+      // Replay what already happened so late subscribers see the full picture.
+      job.fileStates.forEach((state, index) => {
+        if (state !== "pending") send(fileEvent(job, index));
+      });
+      send({ type: "status", status: job.status, error: job.error });
+      if (isFinished(job.status)) {
+        close();
+        return;
+      }
+
+      unsubscribe = store.subscribe(id, (event) => {
+        send(event);
+        if (event.type === "status" && isFinished(event.status)) close();
+      });
+      request.signal.addEventListener("abort", close, { once: true });
+    },
+    cancel() {
+      unsubscribe();
+    },
+  });
+
+  return new Response(body, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
+
+export const runtime = "nodejs";
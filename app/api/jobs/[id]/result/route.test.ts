@@ -0,0 +1,67 @@
+import { expect, test } from "bun:test";
+import type { NextRequest } from "next/server";
+import sharp from "sharp";
+import { createZipStream } from "@/lib/image/archive";
+import { parseConvertRequest } from "@/lib/image/request";
+import { readZip } from "@/lib/image/unzip";
+import { startJob } from "@/lib/jobs/runner";
+import { getJobStore } from "@/lib/jobs/store";
+import { isFinished } from "@/lib/jobs/types";
+import { GET } from "./route";
+
+async function albumWithNotes() {
+  const image = await sharp({
+    create: { width: 40, height: 30, channels: 3, background: "#3366cc" },
+  })
+    .jpeg()
+    .toBuffer();
+  const zip = createZipStream();
+  zip.append("dir/a.jpg", image);
+  zip.append("dir/notes.txt", "not an image");
+  const [data] = await Promise.all([
+    new Response(zip.body).arrayBuffer(),
+    zip.finalize(),
+  ]);
+  return new File([data], "album.zip");
+}
+
+async function waitForJob(id: string) {
+  for (;;) {
+    const job = await getJobStore().get(id);
+    if (!job || isFinished(job.status)) return job;
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
+
+test("the result lists passed-through entries and is only served once", async () => {
+  const formData = new FormData();
+  formData.append("files", await albumWithNotes());
+  formData.set("passThrough", "true");
+  const parsed = await parseConvertRequest(
+    new Request("http://localhost/api/jobs", { method: "POST", body: formData })
+  );
+  if (!parsed.ok) throw new Error("Request should parse.");
+  const { id } = await startJob(parsed.value);
+  expect((await waitForJob(id))?.status).toBe("done");
+
+  const response = await GET(
+    new Request(`http://localhost/api/jobs/${id}/result`) as NextRequest,
+    { params: Promise.resolve({ id }) }
+  );
+  const archive = readZip(Buffer.from(await response.arrayBuffer()), "result.zip", {
+    passThrough: true,
+    used: { bytes: 0, files: 0 },
+  });
+  if (!archive.ok) throw new Error("Result should be a ZIP.");
+  const report = archive.entries.find((entry) => entry.path === "report.json");
+  expect(JSON.parse(report?.data.toString() ?? "{}").passedThrough).toEqual([
+    "dir/notes.txt",
+  ]);
+
+  const again = await GET(
+    new Request(`http://localhost/api/jobs/${id}/result`) as NextRequest,
+    { params: Promise.resolve({ id }) }
+  );
+  expect(again.status).toBe(410);
+  expect((await getJobStore().get(id))?.outputs).toEqual([]);
+});
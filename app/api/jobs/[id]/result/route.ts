@@ -0,0 +1,76 @@
+import type { NextRequest } from "next/server";
+import { createZipStream } from "@/lib/image/archive";
+import { REPORT_NAME } from "@/lib/image/naming";
+import { getJobStore } from "@/lib/jobs/store";
+import { releaseOutputs } from "@/lib/jobs/types";
+
+type Context = { params: Promise<{ id: string }> };
+
+export async function GET(request: NextRequest, { params }: Context) {
+  const { id } = await params;
+  const job = await getJobStore().get(id);
+  if (!job) {
+    return Response.json({ error: "Job not found." }, { status: 404 });
+  }
+  if (job.status !== "done") {
+    return Response.json(
+      { error: `Job is ${job.status}; results are only available once it is done.` },
+      { status: 409 }
+    );
+  }
+  if (job.released) {
+    return Response.json(
+      { error: "The result was already downloaded or has expired." },
+      { status: 410 }
+    );
+  }
+  // The buffers are only needed for this one download, so the job lets go of them now.
+  const { outputs } = job;
+  await getJobStore().update(id, releaseOutputs);
+
+  if (job.reports.length === 1 && outputs.length <= 1 && !job.unpacked) {
+    const [output] = outputs;
+    if (!output) {
+      const [report] = job.reports;
+      return Response.json(
+        { error: `${report?.inputName}: ${report?.error}`, files: job.reports },
+        { status: 422 }
+      );
+    }
+    return new Response(new Uint8Array(output.buffer), {
+      headers: {
+        "Content-Type": output.mime,
+        "Content-Disposition": `attachment; filename="${output.name}"`,
+      },
+    });
+  }
+
+  const zip = createZipStream(request.signal);
+  for (const output of outputs) {
+    zip.append(output.name, output.buffer);
+  }
+  zip.append(
+    REPORT_NAME,
+    JSON.stringify(
+      {
+        files: job.reports,
+        passedThrough: job.passedThrough.length ? job.passedThrough : undefined,
+      },
+      null,
+      2
+    )
+  );
+  zip.finalize().catch((error) => {
+    console.error("job result failed", error);
+    zip.abort(error);
+  });
+
+  return new Response(zip.body, {
+    headers: {
+      "Content-Type": "application/zip",
+      "Content-Disposition": `attachment; filename="image-mage-export.zip"`,
+    },
+  });
+}
+
+export const runtime = "nodejs";
@@ -0,0 +1,26 @@
+import type { NextRequest } from "next/server";
+import { cancelJob } from "@/lib/jobs/runner";
+import { getJobStore } from "@/lib/jobs/store";
+import { jobSummary } from "@/lib/jobs/types";
+
+type Context = { params: Promise<{ id: string }> };
+
+export async function GET(_request: NextRequest, { params }: Context) {
+  const { id } = await params;
+  const job = await getJobStore().get(id);
+  if (!job) {
+    return Response.json({ error: "Job not found." }, { status: 404 });
+  }
+  return Response.json(jobSummary(job));
+}
+
+export async function DELETE(_request: NextRequest, { params }: Context) {
+  const { id } = await params;
+  const job = await cancelJob(id);
+  if (!job) {
+    return Response.json({ error: "Job not found." }, { status: 404 });
+  }
+  return Response.json(jobSummary(job));
+}
+
+export const runtime = "nodejs";
@@ -0,0 +1,26 @@
+import type { NextRequest } from "next/server";
+import { parseConvertRequest } from "@/lib/image/request";
+import { startJob } from "@/lib/jobs/runner";
+import { jobSummary } from "@/lib/jobs/types";
+
+export async function POST(request: NextRequest) {
+  try {
+    const parsed = await parseConvertRequest(request);
+    if (!parsed.ok) {
+      return parsed.response;
+    }
+
+    const job = await startJob(parsed.value);
+    return Response.json(jobSummary(job), { status: 202 });
+  } catch (error) {
+    console.error("job creation failed", error);
+    return Response.json(
+      {
+        error: error instanceof Error ? error.message : "Failed to start job.",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export const runtime = "nodejs";
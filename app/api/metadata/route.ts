@@ -0,0 +1,42 @@
+import type { NextRequest } from "next/server";
+import { detectInput } from "@/lib/image/detect";
+import { describeMetadata } from "@/lib/image/metadata";
+import { readUploadedFiles } from "@/lib/image/request";
+import { runQueue } from "@/lib/image/scheduler";
+
+export async function POST(request: NextRequest) {
+  try {
+    const upload = await readUploadedFiles(request);
+    if (!upload.ok) {
+      return upload.response;
+    }
+    const { files, buffers } = upload.value;
+
+    const reports = await runQueue(files, async (file, index) => {
+      try {
+        await detectInput(buffers[index], file.name);
+        return {
+          inputName: file.name,
+          ...(await describeMetadata(buffers[index])),
+        };
+      } catch (error) {
+        return {
+          inputName: file.name,
+          error: error instanceof Error ? error.message : "Failed to read metadata.",
+        };
+      }
+    });
+
+    return Response.json({ files: reports });
+  } catch (error) {
+    console.error("metadata failed", error);
+    return Response.json(
+      {
+        error: error instanceof Error ? error.message : "Failed to read metadata.",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export const runtime = "nodejs";
@@ -0,0 +1,58 @@
+import type { NextRequest } from "next/server";
+import { previewViews, renderPreview, type PreviewView } from "@/lib/image/preview";
+import { parseConvertRequest } from "@/lib/image/request";
+import { runLimited } from "@/lib/image/scheduler";
+import { invalidRequest } from "@/lib/image/schema";
+
+export async function POST(request: NextRequest) {
+  try {
+    const view = request.nextUrl.searchParams.get("view") ?? "encoded";
+    if (!(previewViews as readonly string[]).includes(view)) {
+      return invalidRequest({ view: `Must be one of: ${previewViews.join(", ")}.` });
+    }
+
+    const parsed = await parseConvertRequest(request);
+    if (!parsed.ok) {
+      return parsed.response;
+    }
+    const { files, buffers, fileOptions } = parsed.value;
+    if (files.length !== 1) {
+      return Response.json(
+        { error: "Preview takes exactly one image." },
+        { status: 400 }
+      );
+    }
+
+    // Previews re-render as options change, so they wait their turn like any batch.
+    const preview = await runLimited(
+      () => renderPreview(buffers[0], files[0], fileOptions[0], view as PreviewView),
+      request.signal
+    );
+    if ("error" in preview) {
+      return Response.json({ error: preview.error }, { status: 422 });
+    }
+
+    const headers: Record<string, string> = {
+      "Content-Type": preview.mime,
+      "Cache-Control": "no-store",
+    };
+    const { report } = preview;
+    if (report) {
+      headers["X-Preview-Format"] = String(report.format);
+      headers["X-Preview-Quality"] = String(report.quality);
+      headers["X-Preview-Size"] = String(report.outputSize);
+      if (report.ssim !== undefined) headers["X-Preview-Ssim"] = String(report.ssim);
+    }
+    return new Response(new Uint8Array(preview.body), { headers });
+  } catch (error) {
+    console.error("preview failed", error);
+    return Response.json(
+      {
+        error: error instanceof Error ? error.message : "Failed to preview image.",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export const runtime = "nodejs";
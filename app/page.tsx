@@ -1,32 +1,83 @@
 "use client";
 
 import Image from "next/image";
-import { type DragEvent, useEffect, useMemo, useRef, useState } from "react";
+import {
+  type DragEvent,
+  type MouseEvent,
+  useEffect,
+  useEffectEvent,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
+import { checkFileLimits, checkPixelCount } from "@/lib/image/limits";
+import { isZipArchive, SNIFF_BYTES, sniffFormat } from "@/lib/image/sniff";
+import {
+  type AspectRatio,
+  aspectRatios,
+  type BitDepth,
+  bitDepthLabels,
+  bitDepths,
+  type ColorSpace,
+  colorSpaceLabels,
+  colorSpaces,
+  cropStrategies,
+  type CropStrategy,
+  type Fit,
+  fits,
+  metadataPolicies,
+  type MetadataPolicy,
+  metadataPolicyLabels,
+  type Preset as NamedPreset,
+  presetQuality,
+  presets,
+  type WatermarkPosition,
+  watermarkPositions,
+} from "@/lib/image/types";
 
-type Preset = "tiny" | "small" | "balanced" | "crisp" | "custom";
-type OutputFormat = "auto" | "jpeg" | "png" | "webp" | "avif" | "tiff" | "gif";
+type Preset = NamedPreset | "custom";
+type FormatOption = { format: string; label: string; extension?: string };
 
-const presetQuality: Record<Exclude<Preset, "custom">, number> = {
-  tiny: 45,
-  small: 60,
-  balanced: 75,
-  crisp: 88,
-};
+const autoFormat: FormatOption = { format: "auto", label: "Auto (keep format)" };
+const bestFormat: FormatOption = { format: "best", label: "Best (smallest)" };
+
+const losslessFormats = ["webp", "jxl"];
+
+// Other formats are previewed as a PNG of their decoded pixels.
+const browserFormats = ["jpeg", "png", "webp", "avif", "gif"];
+
+const PRESETS_STORAGE_KEY = "image-mage:presets";
+
+// Crops and focal points belong to one image rather than to a house style.
+const unsavedFields = ["crop", "focusX", "focusY"];
+
+const PREVIEW_DEBOUNCE_MS = 400;
+const HEATMAP_GAIN = 4;
+
+const responsiveFormatOptions = ["avif", "webp", "jpeg", "png"] as const;
 
-const formatLabels: Record<OutputFormat, string> = {
-  auto: "Auto (keep format)",
-  jpeg: "JPG",
-  png: "PNG",
-  webp: "WebP",
-  avif: "AVIF",
-  tiff: "TIFF",
-  gif: "GIF",
+type ResponsiveFormat = (typeof responsiveFormatOptions)[number];
+
+type FocalPoint = { x: number; y: number };
+
+const watermarkAlignment: Record<WatermarkPosition, string> = {
+  "top-left": "items-start justify-start",
+  top: "items-start justify-center",
+  "top-right": "items-start justify-end",
+  left: "items-center justify-start",
+  center: "items-center justify-center",
+  right: "items-center justify-end",
+  "bottom-left": "items-end justify-start",
+  bottom: "items-end justify-center",
+  "bottom-right": "items-end justify-end",
 };
 
 type LocalFile = {
   id: string;
   file: File;
   url: string;
+  // A ZIP the server unpacks; it has no preview of its own.
+  archive: boolean;
 };
 
 type Result = {
@@ -36,11 +87,70 @@ type Result = {
   count: number;
 };
 
+type JobStatus = "queued" | "running" | "done" | "failed" | "cancelled";
+
+type FileProgress = {
+  state: "pending" | "processing" | "done" | "failed";
+  error?: string;
+};
+
+type FormatSelection = {
+  reason: string;
+  candidates: { format: string; size: number }[];
+};
+
+type Analysis = {
+  format: string;
+  width: number;
+  height: number;
+  frames: number;
+  colorSpace: string;
+  bitDepth: number;
+  icc?: string;
+  palette: string[];
+  kind: "photo" | "graphic";
+  suggestedPreset: Exclude<Preset, "custom">;
+  suggestedFormat: string;
+  metadata: { hasGps: boolean };
+};
+
+// Options that replace the global ones for a single file.
+type FileOverride = {
+  format?: string;
+  quality?: number;
+  width?: number;
+  lossless?: boolean;
+};
+
 type Estimate = {
-  name: string;
+  name?: string;
+  format?: string;
   inputName: string;
   inputSize: number;
-  outputSize: number;
+  outputSize?: number;
+  ssim?: number;
+  targetMet?: boolean;
+  frames?: number;
+  selection?: FormatSelection;
+  placeholder?: { blurHash: string; thumbHash: string; dominant: string };
+  warnings?: string[];
+  error?: string;
+};
+
+// The same document /api/convert accepts as `preset`, keyed by form field names.
+type SavedPreset = {
+  name: string;
+  options: Record<string, string | number | boolean>;
+};
+
+// Object URLs of the unencoded and encoded preview, with what the encoder chose.
+type Comparison = {
+  before: string;
+  after: string;
+  format: string;
+  quality: number;
+  size: number;
+  ssim?: number;
 };
 
 function formatBytes(bytes: number) {
@@ -51,66 +161,582 @@ function formatBytes(bytes: number) {
   return `${(bytes / k ** i).toFixed(1)} ${sizes[i]}`;
 }
 
+function overrideBadges(override: FileOverride) {
+  return [
+    override.format && override.format.toUpperCase(),
+    override.quality !== undefined && `Q${override.quality}`,
+    override.width !== undefined && `${override.width}px`,
+    override.lossless !== undefined && (override.lossless ? "Lossless" : "Lossy"),
+  ].filter((badge): badge is string => Boolean(badge));
+}
+
+// Files picked from a folder keep their path, so the export mirrors the folder tree.
+function uploadName(file: File) {
+  return file.webkitRelativePath || file.name;
+}
+
+function isSavedPreset(value: unknown): value is SavedPreset {
+  const preset = value as SavedPreset | null;
+  return (
+    typeof preset?.name === "string" &&
+    Boolean(preset.name.trim()) &&
+    typeof preset.options === "object" &&
+    preset.options !== null
+  );
+}
+
+// Anything unreadable in storage is dropped rather than breaking the page.
+function readSavedPresets(): SavedPreset[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(PRESETS_STORAGE_KEY) ?? "[]");
+    return Array.isArray(stored) ? stored.filter(isSavedPreset) : [];
+  } catch {
+    return [];
+  }
+}
+
+// Written the way a person would write the document, with numbers and booleans unquoted.
+function toPresetValue(value: string) {
+  if (value === "true" || value === "false") return value === "true";
+  return /^-?\d+(\.\d+)?$/.test(value) ? Number(value) : value;
+}
+
 function formatPercent(value: number) {
   return `${Math.round(value)}%`;
 }
 
+const progressScale: Record<FileProgress["state"], number> = {
+  pending: 0,
+  processing: 0.5,
+  done: 1,
+  failed: 1,
+};
+
+// Resolves once the job reaches a final status, reporting each uploaded file's progress
+// on the way. The job counts a ZIP's images separately, so events name the upload they
+// came from along with its overall state.
+function followJob(
+  id: string,
+  onFile: (index: number, progress: FileProgress) => void
+): Promise<{ status: JobStatus; error?: string }> {
+  return new Promise((resolve) => {
+    const source = new EventSource(`/api/jobs/${id}/events`);
+    source.addEventListener("file", (event) => {
+      const data = JSON.parse((event as MessageEvent).data);
+      onFile(data.source, { state: data.sourceState, error: data.report?.error });
+    });
+    source.addEventListener("status", (event) => {
+      const data = JSON.parse((event as MessageEvent).data);
+      if (["done", "failed", "cancelled"].includes(data.status)) {
+        source.close();
+        resolve(data);
+      }
+    });
+    source.onerror = () => {
+      if (source.readyState !== EventSource.CLOSED) return;
+      resolve({ status: "failed", error: "Lost connection to the conversion job." });
+    };
+  });
+}
+
+function readDimensions(url: string) {
+  return new Promise<{ width: number; height: number } | null>((resolve) => {
+    const img = new window.Image();
+    img.onload = () => resolve({ width: img.naturalWidth, height: img.naturalHeight });
+    img.onerror = () => resolve(null);
+    img.src = url;
+  });
+}
+
+// Browsers leave file.type empty or guess from the extension, so the first bytes decide.
+async function sniffFile(file: File) {
+  const bytes = new Uint8Array(await file.slice(0, SNIFF_BYTES).arrayBuffer());
+  return isZipArchive(bytes) ? "zip" : sniffFormat(bytes);
+}
+
+// Files inside dropped folders are only reachable through entries, and get their path as
+// their name since browsers leave webkitRelativePath empty for drops.
+async function readDroppedEntries(entries: FileSystemEntry[]): Promise<File[]> {
+  const readEntry = async (entry: FileSystemEntry): Promise<File[]> => {
+    if (entry.isFile) {
+      const file = await new Promise<File>((resolve, reject) =>
+        (entry as FileSystemFileEntry).file(resolve, reject)
+      );
+      const path = entry.fullPath.replace(/^\//, "");
+      return path === file.name
+        ? [file]
+        : [new File([file], path, { type: file.type, lastModified: file.lastModified })];
+    }
+    const reader = (entry as FileSystemDirectoryEntry).createReader();
+    const children: FileSystemEntry[] = [];
+    // readEntries hands out a folder's contents in batches until it returns none.
+    for (;;) {
+      const batch = await new Promise<FileSystemEntry[]>((resolve, reject) =>
+        reader.readEntries(resolve, reject)
+      );
+      if (!batch.length) break;
+      children.push(...batch);
+    }
+    return (await Promise.all(children.map(readEntry))).flat();
+  };
+  return (await Promise.all(entries.map(readEntry))).flat();
+}
+
+function FieldError({ message }: { message?: string }) {
+  if (!message) return null;
+  return <p className="text-[9px] font-medium text-red-300">{message}</p>;
+}
+
+function loadImage(url: string) {
+  return new Promise<HTMLImageElement>((resolve, reject) => {
+    const img = new window.Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Failed to load the preview."));
+    img.src = url;
+  });
+}
+
+// Both images are laid over white at the output's size, and the largest channel
+// difference is amplified so faint artifacts still show: black, then red, then yellow.
+async function renderHeatmap(before: string, after: string) {
+  const [beforeImage, afterImage] = await Promise.all([
+    loadImage(before),
+    loadImage(after),
+  ]);
+  const { naturalWidth: width, naturalHeight: height } = afterImage;
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext("2d", { willReadFrequently: true });
+  if (!context) throw new Error("This browser can't draw the difference.");
+  const read = (image: HTMLImageElement) => {
+    context.fillStyle = "#ffffff";
+    context.fillRect(0, 0, width, height);
+    context.drawImage(image, 0, 0, width, height);
+    return context.getImageData(0, 0, width, height);
+  };
+  const reference = read(beforeImage).data;
+  const heatmap = read(afterImage);
+  const { data } = heatmap;
+  for (let i = 0; i < data.length; i += 4) {
+    const difference = Math.max(
+      Math.abs(data[i] - reference[i]),
+      Math.abs(data[i + 1] - reference[i + 1]),
+      Math.abs(data[i + 2] - reference[i + 2])
+    );
+    const heat = Math.min(1, (difference * HEATMAP_GAIN) / 255) * 2;
+    data[i] = Math.min(1, heat) * 255;
+    data[i + 1] = Math.max(0, heat - 1) * 255;
+    data[i + 2] = 0;
+    data[i + 3] = 255;
+  }
+  context.putImageData(heatmap, 0, 0);
+  return canvas.toDataURL("image/png");
+}
+
+// Before is the unencoded output and after the encoded one, so only the encoder's losses
+// show. The loupe shows whichever side is under the pointer at 100%.
+function ComparisonView({ before, after }: { before: string; after: string }) {
+  const [mode, setMode] = useState<"slider" | "heatmap">("slider");
+  const [split, setSplit] = useState(0.5);
+  const [loupe, setLoupe] = useState(false);
+  const [pointer, setPointer] = useState<FocalPoint | null>(null);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+  const [heatmap, setHeatmap] = useState<{ key: string; url: string } | null>(null);
+  const heatmapKey = `${before}\n${after}`;
+
+  useEffect(() => {
+    if (mode !== "heatmap") return;
+    let cancelled = false;
+    renderHeatmap(before, after)
+      .then((url) => {
+        if (!cancelled) setHeatmap({ key: `${before}\n${after}`, url });
+      })
+      .catch(() => null);
+    return () => {
+      cancelled = true;
+    };
+  }, [mode, before, after]);
+
+  const heatmapUrl = heatmap?.key === heatmapKey ? heatmap.url : null;
+  const loupeUrl =
+    mode === "heatmap" ? heatmapUrl : pointer && pointer.x < split ? before : after;
+
+  const handlePointerMove = (event: MouseEvent<HTMLDivElement>) => {
+    const bounds = event.currentTarget.getBoundingClientRect();
+    setPointer({
+      x: (event.clientX - bounds.left) / bounds.width,
+      y: (event.clientY - bounds.top) / bounds.height,
+    });
+  };
+
+  return (
+    <div className="grid gap-1.5">
+      <div
+        onMouseMove={handlePointerMove}
+        onMouseLeave={() => setPointer(null)}
+        className={`relative overflow-hidden rounded-lg bg-white/5 ${loupe ? "cursor-none" : ""}`}
+      >
+        <Image
+          src={mode === "heatmap" && heatmapUrl ? heatmapUrl : after}
+          alt="Encoded preview"
+          width={0}
+          height={0}
+          sizes="100vw"
+          className="h-auto w-full"
+          onLoad={(e) =>
+            setSize({
+              width: e.currentTarget.naturalWidth,
+              height: e.currentTarget.naturalHeight,
+            })
+          }
+          unoptimized
+        />
+        {mode === "slider" && (
+          <>
+            <Image
+              src={before}
+              alt="Unencoded preview"
+              width={0}
+              height={0}
+              sizes="100vw"
+              className="absolute inset-0 size-full"
+              style={{ clipPath: `inset(0 ${(1 - split) * 100}% 0 0)` }}
+              unoptimized
+            />
+            <span
+              className="pointer-events-none absolute inset-y-0 w-0.5 -translate-x-1/2 bg-white shadow-sm"
+              style={{ left: `${split * 100}%` }}
+            />
+            <span className="pointer-events-none absolute top-1 left-1 rounded-sm bg-black/60 px-1 text-[8px] font-bold text-white uppercase">
+              Before
+            </span>
+            <span className="pointer-events-none absolute top-1 right-1 rounded-sm bg-black/60 px-1 text-[8px] font-bold text-white uppercase">
+              After
+            </span>
+          </>
+        )}
+        {loupe && pointer && loupeUrl && (
+          <span
+            className="pointer-events-none absolute size-28 -translate-1/2 rounded-full border-2 border-white bg-no-repeat shadow-lg"
+            style={{
+              left: `${pointer.x * 100}%`,
+              top: `${pointer.y * 100}%`,
+              backgroundImage: `url("${loupeUrl}")`,
+              backgroundSize: `${size.width}px ${size.height}px`,
+              backgroundPosition: `calc(50% - ${(pointer.x - 0.5) * size.width}px) calc(50% - ${(pointer.y - 0.5) * size.height}px)`,
+            }}
+          />
+        )}
+      </div>
+      {mode === "slider" && (
+        <input
+          aria-label="Before and after split"
+          type="range"
+          min={0}
+          max={1}
+          step={0.01}
+          value={split}
+          onChange={(e) => setSplit(Number(e.target.value))}
+          className="h-1 w-full cursor-pointer appearance-none rounded-lg bg-white/10 accent-(--sea)"
+        />
+      )}
+      <div className="flex items-center justify-between gap-2 text-[9px] font-bold text-(--muted)">
+        <div className="flex gap-1">
+          {(["slider", "heatmap"] as const).map((option) => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => setMode(option)}
+              className={`rounded-md px-2 py-0.5 transition ${
+                mode === option ? "bg-(--sea) text-white" : "bg-white/5 hover:bg-white/10"
+              }`}
+            >
+              {option === "slider" ? "Before / After" : "Difference"}
+            </button>
+          ))}
+        </div>
+        <label className="flex cursor-pointer items-center gap-1.5">
+          <input
+            type="checkbox"
+            checked={loupe}
+            onChange={(e) => setLoupe(e.target.checked)}
+            className="size-3 cursor-pointer accent-(--sea)"
+          />
+          100% Loupe
+        </label>
+      </div>
+      {mode === "heatmap" && (
+        <p className="text-[9px] text-(--muted)">
+          {heatmapUrl
+            ? `Brighter areas changed more, amplified ${HEATMAP_GAIN}×.`
+            : "Computing difference…"}
+        </p>
+      )}
+    </div>
+  );
+}
+
 export default function Home() {
   const inputRef = useRef<HTMLInputElement | null>(null);
+  const folderRef = useRef<HTMLInputElement | null>(null);
+  const presetImportRef = useRef<HTMLInputElement | null>(null);
   const [files, setFiles] = useState<LocalFile[]>([]);
-  const [format, setFormat] = useState<OutputFormat>("auto");
+  const [format, setFormat] = useState("auto");
+  const [formatOptions, setFormatOptions] = useState<FormatOption[]>([
+    autoFormat,
+    bestFormat,
+  ]);
+  const [inputFormats, setInputFormats] = useState<FormatOption[]>([]);
   const [preset, setPreset] = useState<Preset>("balanced");
   const [quality, setQuality] = useState(75);
   const [targetSizeKB, setTargetSizeKB] = useState("");
+  const [targetSsim, setTargetSsim] = useState("");
   const [width, setWidth] = useState("");
   const [height, setHeight] = useState("");
-  const [fit, setFit] = useState<"inside" | "cover" | "contain">("inside");
-  const [keepMetadata, setKeepMetadata] = useState(false);
+  const [fit, setFit] = useState<Fit>("inside");
+  const [aspect, setAspect] = useState<AspectRatio>("original");
+  const [cropStrategy, setCropStrategy] = useState<CropStrategy>("center");
+  const [cropRect, setCropRect] = useState("");
+  const [focus, setFocus] = useState<FocalPoint | null>(null);
+  const [previewId, setPreviewId] = useState<string | null>(null);
+  const [previewWidth, setPreviewWidth] = useState(0);
+  const [watermarkText, setWatermarkText] = useState("");
+  const [watermarkFile, setWatermarkFile] = useState<File | null>(null);
+  const [watermarkPosition, setWatermarkPosition] =
+    useState<WatermarkPosition>("bottom-right");
+  const [watermarkOpacity, setWatermarkOpacity] = useState(0.5);
+  const [watermarkScale, setWatermarkScale] = useState(0.2);
+  const [watermarkMargin, setWatermarkMargin] = useState("");
+  const [watermarkTile, setWatermarkTile] = useState(false);
+  const [metadataPolicy, setMetadataPolicy] = useState<MetadataPolicy>("strip");
+  const [metadataAllow, setMetadataAllow] = useState("");
+  const [copyright, setCopyright] = useState("");
+  const [artist, setArtist] = useState("");
+  const [analysis, setAnalysis] = useState<Record<string, Analysis>>({});
+  const [overrides, setOverrides] = useState<Record<string, FileOverride>>({});
+  const [editingOverride, setEditingOverride] = useState<string | null>(null);
+  const [colorSpace, setColorSpace] = useState<ColorSpace>("srgb");
+  const [bitDepth, setBitDepth] = useState<BitDepth>("auto");
   const [flattenBackground, setFlattenBackground] = useState(true);
   const [background, setBackground] = useState("#ffffff");
   const [lossless, setLossless] = useState(false);
-  const [progressive, setProgressive] = useState(true);
+  const [progressive, setProgressive] = useState(false);
+  const [placeholders, setPlaceholders] = useState(false);
+  const [passThrough, setPassThrough] = useState(false);
+  const [firstFrameOnly, setFirstFrameOnly] = useState(false);
+  const [frameStep, setFrameStep] = useState("");
+  const [maxFps, setMaxFps] = useState("");
+  const [responsiveWidths, setResponsiveWidths] = useState("");
+  const [filenameTemplate, setFilenameTemplate] = useState("");
+  const [responsiveFormats, setResponsiveFormats] = useState<ResponsiveFormat[]>([
+    "avif",
+    "webp",
+    "jpeg",
+  ]);
   const [processing, setProcessing] = useState(false);
   const [estimating, setEstimating] = useState(false);
   const [isDragOver, setIsDragOver] = useState(false);
   const [estimate, setEstimate] = useState<Estimate[]>([]);
   const [status, setStatus] = useState<"idle" | "processing" | "done">("idle");
   const [error, setError] = useState("");
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+  const [jobId, setJobId] = useState<string | null>(null);
+  const [fileProgress, setFileProgress] = useState<Record<string, FileProgress>>({});
   const [result, setResult] = useState<Result | null>(null);
+  const [savedPresets, setSavedPresets] = useState<SavedPreset[]>([]);
+  const [selectedPreset, setSelectedPreset] = useState("");
+  const [presetName, setPresetName] = useState("");
+  const [comparing, setComparing] = useState(false);
+  const [comparison, setComparison] = useState<Comparison | null>(null);
+  const [comparisonError, setComparisonError] = useState("");
+  const [rendering, setRendering] = useState(false);
 
   const totalInputSize = useMemo(
     () => files.reduce((sum, item) => sum + item.file.size, 0),
     [files]
   );
 
-  const handleAddFiles = (incoming: FileList | File[]) => {
-    const list = Array.from(incoming).filter((file) => file.type.startsWith("image/"));
+  const keepsLocation =
+    metadataPolicy === "all" ||
+    (metadataPolicy === "allowlist" && /GPS/i.test(metadataAllow));
+
+  const previewFile =
+    files.find((item) => item.id === previewId && !item.archive) ??
+    files.find((item) => !item.archive);
+
+  const watermarkImage = useMemo(
+    () =>
+      watermarkFile
+        ? { file: watermarkFile, url: URL.createObjectURL(watermarkFile) }
+        : null,
+    [watermarkFile]
+  );
+
+  useEffect(() => {
+    if (!watermarkImage) return;
+    return () => URL.revokeObjectURL(watermarkImage.url);
+  }, [watermarkImage]);
+
+  // Sizes in the preview are relative to its width, the way the server sizes them to the output.
+  const outputWidth = Number(width) || previewWidth || 1;
+  const watermarkInset = `${((Number(watermarkMargin) || 16) / outputWidth) * 100}cqw`;
+  const watermarkMark = watermarkImage ? (
+    <Image
+      src={watermarkImage.url}
+      alt=""
+      width={0}
+      height={0}
+      className="h-auto"
+      style={{ width: `${watermarkScale * 100}cqw`, opacity: watermarkOpacity }}
+      unoptimized
+    />
+  ) : watermarkText.trim() ? (
+    <span
+      className="block font-bold whitespace-nowrap text-white"
+      style={{
+        // Bold sans glyphs average a little over half an em wide.
+        fontSize: `${(watermarkScale * 100) / (0.6 * watermarkText.trim().length)}cqw`,
+        opacity: watermarkOpacity,
+      }}
+    >
+      {watermarkText.trim()}
+    </span>
+  ) : null;
+
+  const estimateByName = useMemo(
+    () => new Map(estimate.map((entry) => [entry.inputName, entry])),
+    [estimate]
+  );
+
+  // Failed files are left out so the savings reflect what will actually be exported.
+  const estimateTotals = useMemo(
+    () =>
+      estimate.reduce(
+        (totals, entry) =>
+          entry.outputSize === undefined
+            ? totals
+            : {
+                input: totals.input + entry.inputSize,
+                output: totals.output + entry.outputSize,
+              },
+        { input: 0, output: 0 }
+      ),
+    [estimate]
+  );
+
+  // Analysis only adds detail to the file list, so a failed request is left silent.
+  const analyzeFiles = async (added: LocalFile[]) => {
+    const formData = new FormData();
+    added.forEach((item) => formData.append("files", item.file, uploadName(item.file)));
+    const response = await fetch("/api/analyze", {
+      method: "POST",
+      body: formData,
+    }).catch(() => null);
+    if (!response?.ok) return;
+    const payload: { files?: (Analysis & { error?: string })[] } = await response
+      .json()
+      .catch(() => ({}));
+    const entries = added.flatMap((item, index) => {
+      const report = payload.files?.[index];
+      return report && !report.error ? [[item.id, report] as const] : [];
+    });
+    setAnalysis((prev) => ({ ...prev, ...Object.fromEntries(entries) }));
+  };
+
+  const handleAddFiles = async (incoming: FileList | File[]) => {
+    const incomingFiles = Array.from(incoming);
+    const sniffed = await Promise.all(incomingFiles.map(sniffFile));
+    const readable = inputFormats.map((option) => option.format);
+    const list = incomingFiles.filter((_, index) => {
+      const detected = sniffed[index];
+      if (detected === "zip") return true;
+      return detected && (!readable.length || readable.includes(detected));
+    });
+    const skipped = incomingFiles.filter((file) => !list.includes(file));
+    const skippedMessage = skipped.length
+      ? `Skipped unsupported files: ${skipped.map((file) => file.name).join(", ")}.`
+      : "";
     if (!list.length) {
-      setError("Please add image files only.");
+      setError(skippedMessage || "Please add image files only.");
       return;
     }
-    setError("");
-    setResult(null);
-    setEstimate([]);
-    setStatus("idle");
-    setFiles((prev) => [
-      ...prev,
+    const violation = checkFileLimits([
+      ...files.map(({ file, archive }) => ({
+        name: file.name,
+        size: file.size,
+        archive,
+      })),
       ...list.map((file) => ({
-        id: globalThis.crypto?.randomUUID?.() ?? `${Date.now()}-${file.name}`,
-        file,
-        url: URL.createObjectURL(file),
+        name: file.name,
+        size: file.size,
+        archive: sniffed[incomingFiles.indexOf(file)] === "zip",
       })),
     ]);
+    if (violation) {
+      setError(violation.message);
+      return;
+    }
+    const added = list.map((file) => ({
+      id: globalThis.crypto?.randomUUID?.() ?? `${Date.now()}-${file.name}`,
+      file,
+      url: URL.createObjectURL(file),
+      archive: sniffed[incomingFiles.indexOf(file)] === "zip",
+    }));
+    for (const item of added.filter((entry) => !entry.archive)) {
+      const size = await readDimensions(item.url);
+      const pixelViolation = size
+        ? checkPixelCount(item.file.name, size.width, size.height)
+        : null;
+      if (pixelViolation) {
+        added.forEach((entry) => URL.revokeObjectURL(entry.url));
+        setError(pixelViolation.message);
+        return;
+      }
+    }
+    setError(skippedMessage);
+    setResult(null);
+    setEstimate([]);
+    setFileProgress({});
+    setStatus("idle");
+    setFiles((prev) => [...prev, ...added]);
+    void analyzeFiles(added.filter((item) => !item.archive));
   };
 
   const handleDrop = (event: DragEvent<HTMLDivElement>) => {
     event.preventDefault();
     setIsDragOver(false);
+    // Entries have to be taken before the handler returns, while the drop is still live.
+    const entries = Array.from(event.dataTransfer?.items ?? [])
+      .map((item) => item.webkitGetAsEntry())
+      .filter((entry): entry is FileSystemEntry => Boolean(entry));
+    if (entries.some((entry) => entry.isDirectory)) {
+      void readDroppedEntries(entries).then(handleAddFiles);
+      return;
+    }
     if (event.dataTransfer?.files?.length) {
       handleAddFiles(event.dataTransfer.files);
     }
   };
 
+  const handlePickFocus = (event: MouseEvent<HTMLButtonElement>) => {
+    const bounds = event.currentTarget.getBoundingClientRect();
+    const toFraction = (value: number) =>
+      Math.round(Math.min(1, Math.max(0, value)) * 1000) / 1000;
+    setFocus({
+      x: toFraction((event.clientX - bounds.left) / bounds.width),
+      y: toFraction((event.clientY - bounds.top) / bounds.height),
+    });
+  };
+
+  const handleFormatChange = (value: string) => {
+    setFormat(value);
+    if (!losslessFormats.includes(value)) {
+      setLossless(false);
+    }
+    setProgressive(value === "jpeg");
+  };
+
   const handlePresetChange = (value: Preset) => {
     setPreset(value);
     if (value !== "custom") {
@@ -124,10 +750,16 @@ export default function Home() {
       const removed = prev.find((item) => item.id === id);
       if (removed) {
         URL.revokeObjectURL(removed.url);
-        removedName = removed.file.name;
+        removedName = uploadName(removed.file);
       }
       return prev.filter((item) => item.id !== id);
     });
+    setAnalysis((prev) =>
+      Object.fromEntries(Object.entries(prev).filter(([key]) => key !== id))
+    );
+    setOverrides((prev) =>
+      Object.fromEntries(Object.entries(prev).filter(([key]) => key !== id))
+    );
     if (removedName) {
       setEstimate((prev) => prev.filter((entry) => entry.inputName !== removedName));
     }
@@ -138,8 +770,12 @@ export default function Home() {
       URL.revokeObjectURL(item.url);
     });
     setFiles([]);
+    setAnalysis({});
+    setOverrides({});
+    setEditingOverride(null);
     setResult(null);
     setEstimate([]);
+    setFileProgress({});
     setStatus("idle");
   };
 
@@ -150,40 +786,343 @@ export default function Home() {
     link.click();
   };
 
-  const handleSubmit = async () => {
-    if (!files.length) {
-      setError("Add at least one image to continue.");
-      return;
-    }
-    setProcessing(true);
-    setStatus("processing");
-    setError("");
-    setResult(null);
+  const updateOverride = (id: string, change: Partial<FileOverride>) => {
+    setOverrides((prev) => {
+      const next = { ...prev[id], ...change };
+      const fields = Object.entries(next).filter(([, value]) => value !== undefined);
+      if (fields.length) return { ...prev, [id]: Object.fromEntries(fields) };
+      return Object.fromEntries(Object.entries(prev).filter(([key]) => key !== id));
+    });
+  };
 
+  const buildFormData = (items = files) => {
     const formData = new FormData();
-    files.map((item) => formData.append("files", item.file, item.file.name));
+    items.map((item) => formData.append("files", item.file, uploadName(item.file)));
+    // Keyed by position in the upload, since several files can share a name. A ZIP's
+    // override applies to every image in it.
+    const fileOverrides = Object.fromEntries(
+      items.flatMap((item, index) =>
+        overrides[item.id] ? [[String(index), overrides[item.id]]] : []
+      )
+    );
+    if (Object.keys(fileOverrides).length) {
+      formData.set("overrides", JSON.stringify(fileOverrides));
+    }
     formData.set("format", format);
     formData.set("preset", preset === "custom" ? "balanced" : preset);
     formData.set("quality", String(quality));
     if (targetSizeKB) formData.set("targetSizeKB", targetSizeKB);
+    if (targetSsim) formData.set("targetSsim", targetSsim);
     if (width) formData.set("width", width);
     if (height) formData.set("height", height);
     formData.set("fit", fit);
-    formData.set("keepMetadata", String(keepMetadata));
+    if (cropRect.trim()) formData.set("crop", cropRect);
+    if (watermarkFile || watermarkText.trim()) {
+      if (watermarkFile) formData.set("watermark", watermarkFile, watermarkFile.name);
+      else formData.set("watermarkText", watermarkText.trim());
+      formData.set("watermarkPosition", watermarkPosition);
+      formData.set("watermarkOpacity", String(watermarkOpacity));
+      formData.set("watermarkScale", String(watermarkScale));
+      if (watermarkMargin) formData.set("watermarkMargin", watermarkMargin);
+      formData.set("watermarkTile", String(watermarkTile));
+    }
+    formData.set("aspect", aspect);
+    if (focus) {
+      formData.set("focusX", String(focus.x));
+      formData.set("focusY", String(focus.y));
+    } else {
+      formData.set("cropStrategy", cropStrategy);
+    }
+    formData.set("metadata", metadataPolicy);
+    if (metadataPolicy === "allowlist") formData.set("metadataAllow", metadataAllow);
+    if (copyright.trim()) formData.set("copyright", copyright.trim());
+    if (artist.trim()) formData.set("artist", artist.trim());
+    formData.set("colorSpace", colorSpace);
+    formData.set("bitDepth", bitDepth);
     formData.set("flatten", String(flattenBackground));
     formData.set("background", background);
     formData.set("lossless", String(lossless));
     formData.set("progressive", String(progressive));
+    formData.set("placeholders", String(placeholders));
+    formData.set("passThrough", String(passThrough));
+    formData.set("firstFrameOnly", String(firstFrameOnly));
+    if (frameStep) formData.set("frameStep", frameStep);
+    if (maxFps) formData.set("maxFps", maxFps);
+    if (filenameTemplate.trim()) formData.set("filename", filenameTemplate.trim());
+    if (responsiveWidths.trim()) {
+      formData.set("responsiveWidths", responsiveWidths);
+      // Keep the preferred order, since <source> elements are tried top to bottom.
+      formData.set(
+        "responsiveFormats",
+        responsiveFormatOptions.filter((f) => responsiveFormats.includes(f)).join(",")
+      );
+    }
+    return formData;
+  };
 
+  const storePresets = (next: SavedPreset[]) => {
+    setSavedPresets(next);
+    localStorage.setItem(PRESETS_STORAGE_KEY, JSON.stringify(next));
+  };
+
+  // A preset with the name of one already saved replaces it.
+  const addPresets = (added: SavedPreset[]) => {
+    const names = new Set(added.map((item) => item.name));
+    storePresets([...savedPresets.filter((item) => !names.has(item.name)), ...added]);
+  };
+
+  // Fields the preset leaves out go back to the page's defaults.
+  const applySavedPreset = ({ options }: SavedPreset) => {
+    const text = (field: string, fallback = "") =>
+      options[field] === undefined ? fallback : String(options[field]);
+    const number = (field: string, fallback: number) => {
+      const value = Number(options[field]);
+      return options[field] === undefined || Number.isNaN(value) ? fallback : value;
+    };
+    const flag = (field: string, fallback: boolean) =>
+      options[field] === undefined ? fallback : text(field) === "true";
+    const choice = <T extends string>(
+      field: string,
+      values: readonly T[],
+      fallback: T
+    ) =>
+      (values as readonly string[]).includes(text(field)) ? (text(field) as T) : fallback;
+
+    const nextFormat = text("format", "auto");
+    handleFormatChange(nextFormat);
+    const named = choice("preset", presets, "balanced");
+    const nextQuality = number("quality", presetQuality[named]);
+    setPreset(nextQuality === presetQuality[named] ? named : "custom");
+    setQuality(nextQuality);
+    setTargetSizeKB(text("targetSizeKB"));
+    setTargetSsim(text("targetSsim"));
+    setWidth(text("width"));
+    setHeight(text("height"));
+    setFit(choice("fit", fits, "inside"));
+    setAspect(choice("aspect", aspectRatios, "original"));
+    setCropStrategy(choice("cropStrategy", cropStrategies, "center"));
+    setWatermarkText(text("watermarkText"));
+    setWatermarkPosition(choice("watermarkPosition", watermarkPositions, "bottom-right"));
+    setWatermarkOpacity(number("watermarkOpacity", 0.5));
+    setWatermarkScale(number("watermarkScale", 0.2));
+    setWatermarkMargin(text("watermarkMargin"));
+    setWatermarkTile(flag("watermarkTile", false));
+    setMetadataPolicy(choice("metadata", metadataPolicies, "strip"));
+    setMetadataAllow(text("metadataAllow"));
+    setCopyright(text("copyright"));
+    setArtist(text("artist"));
+    setColorSpace(choice("colorSpace", colorSpaces, "srgb"));
+    setBitDepth(choice("bitDepth", bitDepths, "auto"));
+    setFlattenBackground(flag("flatten", true));
+    setBackground(text("background", "#ffffff"));
+    setLossless(flag("lossless", false));
+    setProgressive(flag("progressive", nextFormat === "jpeg"));
+    setPlaceholders(flag("placeholders", false));
+    setPassThrough(flag("passThrough", false));
+    setFirstFrameOnly(flag("firstFrameOnly", false));
+    setFrameStep(text("frameStep"));
+    setMaxFps(text("maxFps"));
+    setFilenameTemplate(text("filename"));
+    setResponsiveWidths(text("responsiveWidths"));
+    const formats = responsiveFormatOptions.filter((option) =>
+      text("responsiveFormats").split(",").includes(option)
+    );
+    setResponsiveFormats(formats.length ? formats : ["avif", "webp", "jpeg"]);
+  };
+
+  // Saves what the page would send, so the preset converts the same through the API.
+  const handleSavePreset = () => {
+    const name = presetName.trim();
+    if (!name) return;
+    const options = Object.fromEntries(
+      Array.from(buildFormData([])).flatMap(([key, value]) =>
+        typeof value === "string" && !unsavedFields.includes(key)
+          ? [[key, toPresetValue(value)]]
+          : []
+      )
+    );
+    addPresets([{ name, options }]);
+    setSelectedPreset(name);
+    setPresetName("");
+  };
+
+  const handleSelectPreset = (name: string) => {
+    setSelectedPreset(name);
+    const saved = savedPresets.find((item) => item.name === name);
+    if (saved) applySavedPreset(saved);
+  };
+
+  const deletePreset = () => {
+    storePresets(savedPresets.filter((item) => item.name !== selectedPreset));
+    setSelectedPreset("");
+  };
+
+  const exportPreset = () => {
+    const saved = savedPresets.find((item) => item.name === selectedPreset);
+    if (!saved) return;
+    const url = URL.createObjectURL(
+      new Blob([JSON.stringify(saved, null, 2)], { type: "application/json" })
+    );
+    const slug = saved.name
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-|-$/g, "");
+    triggerDownload(url, `${slug || "preset"}.json`);
+    setTimeout(() => URL.revokeObjectURL(url));
+  };
+
+  // Takes one exported preset or a list of them, and applies the first.
+  const importPresets = async (file: File) => {
     try {
-      const response = await fetch("/api/convert", {
+      const document: unknown = JSON.parse(await file.text());
+      const list = Array.isArray(document) ? document : [document];
+      if (!list.length || !list.every(isSavedPreset)) throw new Error();
+      const imported = list.map((item) => ({
+        name: item.name.trim(),
+        options: item.options,
+      }));
+      addPresets(imported);
+      setSelectedPreset(imported[0].name);
+      applySavedPreset(imported[0]);
+      setError("");
+    } catch {
+      setError(`${file.name} isn't a preset file.`);
+    }
+  };
+
+  // Any change to the options or the previewed file changes this, which re-renders the
+  // comparison. Files are keyed by what they are, since they can't be compared by value.
+  const comparisonKey =
+    comparing && previewFile
+      ? JSON.stringify([
+          previewFile.id,
+          ...Array.from(buildFormData([previewFile]), ([key, value]) => [
+            key,
+            typeof value === "string" ? value : `${value.name}:${value.size}`,
+          ]),
+        ])
+      : "";
+
+  const renderComparison = useEffectEvent(async (signal: AbortSignal) => {
+    if (!previewFile) return;
+    const formData = buildFormData([previewFile]);
+    const fetchView = async (view: string) => {
+      const response = await fetch(`/api/preview?view=${view}`, {
         method: "POST",
         body: formData,
+        signal,
       });
-
       if (!response.ok) {
         const payload = await response.json().catch(() => null);
-        throw new Error(payload?.error || "Conversion failed.");
+        const fields = Object.values(payload?.fields ?? {});
+        throw new Error(
+          fields[0] ? String(fields[0]) : payload?.error || "Preview failed."
+        );
+      }
+      return response;
+    };
+
+    setRendering(true);
+    try {
+      const [encoded, reference] = await Promise.all([
+        fetchView("encoded"),
+        fetchView("reference"),
+      ]);
+      const format = encoded.headers.get("x-preview-format") ?? "";
+      const shown = browserFormats.includes(format)
+        ? encoded
+        : await fetchView("decoded");
+      const [after, before] = await Promise.all([shown.blob(), reference.blob()]);
+      const ssim = encoded.headers.get("x-preview-ssim");
+      if (signal.aborted) return;
+      setComparison({
+        before: URL.createObjectURL(before),
+        after: URL.createObjectURL(after),
+        format,
+        quality: Number(encoded.headers.get("x-preview-quality")),
+        size: Number(encoded.headers.get("x-preview-size")),
+        ssim: ssim ? Number(ssim) : undefined,
+      });
+      setComparisonError("");
+    } catch (err) {
+      if (signal.aborted) return;
+      setComparisonError(err instanceof Error ? err.message : "Preview failed.");
+    } finally {
+      if (!signal.aborted) setRendering(false);
+    }
+  });
+
+  // Waits for the options to settle, and drops a render that a newer one replaces.
+  useEffect(() => {
+    if (!comparisonKey) return;
+    const controller = new AbortController();
+    const timer = setTimeout(
+      () => void renderComparison(controller.signal),
+      PREVIEW_DEBOUNCE_MS
+    );
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [comparisonKey]);
+
+  useEffect(() => {
+    if (!comparison) return;
+    return () => {
+      URL.revokeObjectURL(comparison.before);
+      URL.revokeObjectURL(comparison.after);
+    };
+  }, [comparison]);
+
+  const readError = async (response: Response, fallback: string) => {
+    const payload = await response.json().catch(() => null);
+    setFieldErrors(payload?.fields ?? {});
+    return new Error(payload?.error || fallback);
+  };
+
+  const handleSubmit = async () => {
+    if (!files.length) {
+      setError("Add at least one image to continue.");
+      return;
+    }
+    setProcessing(true);
+    setStatus("processing");
+    setError("");
+    setFieldErrors({});
+    setResult(null);
+
+    const formData = buildFormData();
+    const submitted = files.map((item) => item.id);
+    setFileProgress(
+      Object.fromEntries(submitted.map((id) => [id, { state: "pending" as const }]))
+    );
+
+    try {
+      const jobResponse = await fetch("/api/jobs", {
+        method: "POST",
+        body: formData,
+      });
+      if (!jobResponse.ok) {
+        throw await readError(jobResponse, "Conversion failed.");
+      }
+      const job = await jobResponse.json();
+      setJobId(job.id);
+
+      const outcome = await followJob(job.id, (index, progress) => {
+        const id = submitted[index];
+        if (id) setFileProgress((prev) => ({ ...prev, [id]: progress }));
+      });
+      if (outcome.status === "cancelled") {
+        setStatus("idle");
+        return;
+      }
+      if (outcome.status !== "done") {
+        throw new Error(outcome.error || "Conversion failed.");
+      }
+
+      const response = await fetch(`/api/jobs/${job.id}/result`);
+      if (!response.ok) {
+        throw await readError(response, "Conversion failed.");
       }
 
       const blob = await response.blob();
@@ -207,9 +1146,15 @@ export default function Home() {
       setStatus("idle");
     } finally {
       setProcessing(false);
+      setJobId(null);
     }
   };
 
+  const handleCancel = async () => {
+    if (!jobId) return;
+    await fetch(`/api/jobs/${jobId}`, { method: "DELETE" }).catch(() => null);
+  };
+
   const handleEstimate = async () => {
     if (!files.length) {
       setError("Add at least one image to continue.");
@@ -218,21 +1163,9 @@ export default function Home() {
     setEstimating(true);
     setStatus("processing");
     setError("");
+    setFieldErrors({});
 
-    const formData = new FormData();
-    files.map((item) => formData.append("files", item.file, item.file.name));
-    formData.set("format", format);
-    formData.set("preset", preset === "custom" ? "balanced" : preset);
-    formData.set("quality", String(quality));
-    if (targetSizeKB) formData.set("targetSizeKB", targetSizeKB);
-    if (width) formData.set("width", width);
-    if (height) formData.set("height", height);
-    formData.set("fit", fit);
-    formData.set("keepMetadata", String(keepMetadata));
-    formData.set("flatten", String(flattenBackground));
-    formData.set("background", background);
-    formData.set("lossless", String(lossless));
-    formData.set("progressive", String(progressive));
+    const formData = buildFormData();
 
     try {
       const response = await fetch("/api/estimate", {
@@ -240,8 +1173,7 @@ export default function Home() {
         body: formData,
       });
       if (!response.ok) {
-        const payload = await response.json().catch(() => null);
-        throw new Error(payload?.error || "Estimate failed.");
+        throw await readError(response, "Estimate failed.");
       }
       const payload = await response.json();
       setEstimate(payload.files ?? []);
@@ -255,15 +1187,19 @@ export default function Home() {
   };
 
   useEffect(() => {
-    if (format !== "webp") {
-      setLossless(false);
-    }
-    if (format !== "jpeg") {
-      setProgressive(false);
-    } else {
-      setProgressive(true);
-    }
-  }, [format]);
+    setSavedPresets(readSavedPresets());
+  }, []);
+
+  useEffect(() => {
+    fetch("/api/formats")
+      .then((response) => (response.ok ? response.json() : null))
+      .then((payload) => {
+        if (!payload) return;
+        setFormatOptions([autoFormat, bestFormat, ...payload.output]);
+        setInputFormats(payload.input);
+      })
+      .catch(() => null);
+  }, []);
 
   useEffect(() => {
     return () => {
@@ -330,6 +1266,15 @@ export default function Home() {
               >
                 {processing ? "..." : "Export"}
               </button>
+              {jobId && (
+                <button
+                  type="button"
+                  className="glass rounded-lg px-3 py-1.5 text-[11px] font-bold text-red-300 transition hover:bg-red-500/20"
+                  onClick={handleCancel}
+                >
+                  Cancel
+                </button>
+              )}
             </div>
           </div>
         </header>
@@ -367,7 +1312,11 @@ export default function Home() {
                 ref={inputRef}
                 type="file"
                 id="image-upload"
-                accept="image/*"
+                accept={[
+                  "image/*",
+                  ".zip",
+                  ...inputFormats.map((option) => `.${option.extension}`),
+                ].join(",")}
                 multiple
                 hidden
                 onChange={(e) => {
@@ -378,6 +1327,28 @@ export default function Home() {
                 }}
               />
             </div>
+            <button
+              type="button"
+              onClick={() => folderRef.current?.click()}
+              className="glass rounded-lg py-1.5 text-[9px] font-bold tracking-widest text-(--muted) uppercase transition hover:text-white"
+            >
+              📁 Add Folder
+            </button>
+            <input
+              ref={(node) => {
+                folderRef.current = node;
+                // React has no prop for directory pickers.
+                node?.setAttribute("webkitdirectory", "");
+              }}
+              type="file"
+              hidden
+              onChange={(e) => {
+                if (e.target.files?.length) {
+                  handleAddFiles(e.target.files);
+                  e.target.value = "";
+                }
+              }}
+            />
 
             <div className="glass flex min-h-50 flex-1 flex-col rounded-xl">
               <div className="flex shrink-0 items-center justify-between border-b border-white/5 px-3 py-2">
@@ -400,42 +1371,261 @@ export default function Home() {
                   </div>
                 ) : (
                   <div className="space-y-1.5">
-                    {files.map((item) => (
-                      <div
-                        key={item.id}
-                        className="group flex items-center justify-between gap-2 rounded-lg bg-white/5 px-2.5 py-1.5 transition hover:bg-white/10"
-                      >
-                        <div className="flex items-center gap-2 overflow-hidden">
-                          <div className="relative size-6 shrink-0 overflow-hidden rounded-md">
-                            <Image
-                              src={item.url}
-                              alt=""
-                              fill
-                              className="object-cover"
-                              unoptimized
+                    {files.map((item, index) => {
+                      const entry = estimateByName.get(uploadName(item.file));
+                      const progress = fileProgress[item.id];
+                      const info = analysis[item.id];
+                      const override = overrides[item.id];
+                      const overrideError = Object.entries(fieldErrors).find(([key]) =>
+                        key.startsWith(`files.${index}.`)
+                      );
+                      return (
+                        <div
+                          key={item.id}
+                          onClick={() => setPreviewId(item.id)}
+                          className={`group relative flex cursor-pointer items-center justify-between gap-2 overflow-hidden rounded-lg bg-white/5 px-2.5 py-1.5 transition hover:bg-white/10 ${
+                            item.id === previewFile?.id ? "ring-1 ring-(--sea)/40" : ""
+                          }`}
+                        >
+                          {progress && (
+                            <div
+                              className={`absolute inset-x-0 bottom-0 h-0.5 origin-left transition-transform duration-500 ${
+                                progress.state === "failed" ? "bg-red-400" : "bg-(--sea)"
+                              } ${progress.state === "processing" ? "animate-pulse-soft" : ""}`}
+                              style={{
+                                transform: `scaleX(${progressScale[progress.state]})`,
+                              }}
                             />
-                          </div>
-                          <div className="min-w-0">
-                            <div className="truncate text-[10px]/tight leading-tight font-bold">
-                              {item.file.name}
+                          )}
+                          <div className="flex items-center gap-2 overflow-hidden">
+                            <div className="relative flex size-6 shrink-0 items-center justify-center overflow-hidden rounded-md bg-white/5 text-xs">
+                              {item.archive ? (
+                                "🗜️"
+                              ) : (
+                                <Image
+                                  src={item.url}
+                                  alt=""
+                                  fill
+                                  className="object-cover"
+                                  unoptimized
+                                />
+                              )}
                             </div>
-                            <div className="text-[9px] text-(--muted)">
-                              {formatBytes(item.file.size)}
+                            <div className="min-w-0">
+                              <div className="truncate text-[10px]/tight leading-tight font-bold">
+                                {uploadName(item.file)}
+                              </div>
+                              <div className="text-[9px] text-(--muted)">
+                                {formatBytes(item.file.size)}
+                                {entry?.outputSize !== undefined &&
+                                  ` → ${formatBytes(entry.outputSize)}`}
+                                {entry?.ssim !== undefined &&
+                                  ` · SSIM ${entry.ssim.toFixed(3)}`}
+                                {entry?.targetMet === false && " · over target"}
+                                {entry?.frames !== undefined &&
+                                  entry.frames > 1 &&
+                                  ` · ${entry.frames} frames`}
+                              </div>
+                              {override && (
+                                <div className="flex flex-wrap gap-1 pt-0.5">
+                                  {overrideBadges(override).map((badge) => (
+                                    <span
+                                      key={badge}
+                                      className="rounded-sm bg-(--sea)/15 px-1 text-[8px] font-bold text-(--sea) uppercase"
+                                    >
+                                      {badge}
+                                    </span>
+                                  ))}
+                                </div>
+                              )}
+                              {editingOverride === item.id && (
+                                <div
+                                  onClick={(e) => e.stopPropagation()}
+                                  className="mt-1 grid grid-cols-2 gap-1"
+                                >
+                                  <select
+                                    aria-label={`Format for ${item.file.name}`}
+                                    value={override?.format ?? ""}
+                                    onChange={(e) =>
+                                      updateOverride(item.id, {
+                                        format: e.target.value || undefined,
+                                      })
+                                    }
+                                    className="rounded-sm border border-white/5 bg-white/5 px-1 py-0.5 text-[9px] font-bold outline-none"
+                                  >
+                                    <option value="">Global format</option>
+                                    {formatOptions.map((option) => (
+                                      <option key={option.format} value={option.format}>
+                                        {option.label}
+                                      </option>
+                                    ))}
+                                  </select>
+                                  <select
+                                    aria-label={`Compression for ${item.file.name}`}
+                                    value={
+                                      override?.lossless === undefined
+                                        ? ""
+                                        : String(override.lossless)
+                                    }
+                                    onChange={(e) =>
+                                      updateOverride(item.id, {
+                                        lossless: e.target.value
+                                          ? e.target.value === "true"
+                                          : undefined,
+                                      })
+                                    }
+                                    className="rounded-sm border border-white/5 bg-white/5 px-1 py-0.5 text-[9px] font-bold outline-none"
+                                  >
+                                    <option value="">Global compression</option>
+                                    <option value="true">Lossless</option>
+                                    <option value="false">Lossy</option>
+                                  </select>
+                                  <input
+                                    aria-label={`Quality for ${item.file.name}`}
+                                    type="number"
+                                    min={1}
+                                    max={100}
+                                    value={override?.quality ?? ""}
+                                    onChange={(e) =>
+                                      updateOverride(item.id, {
+                                        quality: e.target.value
+                                          ? Number(e.target.value)
+                                          : undefined,
+                                      })
+                                    }
+                                    placeholder="Quality"
+                                    className="rounded-sm border border-white/5 bg-white/5 px-1 py-0.5 text-[9px] font-bold outline-none"
+                                  />
+                                  <input
+                                    aria-label={`Width for ${item.file.name}`}
+                                    type="number"
+                                    min={1}
+                                    value={override?.width ?? ""}
+                                    onChange={(e) =>
+                                      updateOverride(item.id, {
+                                        width: e.target.value
+                                          ? Number(e.target.value)
+                                          : undefined,
+                                      })
+                                    }
+                                    placeholder="Width"
+                                    className="rounded-sm border border-white/5 bg-white/5 px-1 py-0.5 text-[9px] font-bold outline-none"
+                                  />
+                                </div>
+                              )}
+                              <FieldError message={overrideError?.[1]} />
+                              {entry?.selection && (
+                                <p
+                                  className="text-[9px] text-(--muted)"
+                                  title={entry.selection.reason}
+                                >
+                                  {entry.selection.candidates.map((candidate, index) => (
+                                    <span
+                                      key={candidate.format}
+                                      className={
+                                        candidate.format === entry.format
+                                          ? "font-bold text-(--sea)"
+                                          : undefined
+                                      }
+                                    >
+                                      {index > 0 && " · "}
+                                      {candidate.format.toUpperCase()}{" "}
+                                      {formatBytes(candidate.size)}
+                                    </span>
+                                  ))}
+                                </p>
+                              )}
+                              {entry?.placeholder && (
+                                <div
+                                  className="flex items-center gap-1 text-[9px] text-(--muted)"
+                                  title={`ThumbHash ${entry.placeholder.thumbHash}`}
+                                >
+                                  <span
+                                    className="size-2 shrink-0 rounded-sm"
+                                    style={{
+                                      backgroundColor: entry.placeholder.dominant,
+                                    }}
+                                  />
+                                  <span className="truncate font-mono">
+                                    {entry.placeholder.blurHash}
+                                  </span>
+                                </div>
+                              )}
+                              <FieldError message={entry?.error ?? progress?.error} />
+                              {info && (
+                                <div
+                                  className="flex items-center gap-1 text-[9px] text-(--muted)"
+                                  title={`Suggested: ${info.suggestedPreset} preset as ${info.suggestedFormat.toUpperCase()}`}
+                                >
+                                  <span className="truncate">
+                                    {info.width}×{info.height} · {info.kind} ·{" "}
+                                    {info.icc ?? info.colorSpace}
+                                    {info.bitDepth > 8 &&
+                                      ` · ${info.bitDepth}-bit`} → {info.suggestedPreset}{" "}
+                                    {info.suggestedFormat.toUpperCase()}
+                                  </span>
+                                  <span className="flex shrink-0">
+                                    {info.palette.map((color) => (
+                                      <span
+                                        key={color}
+                                        className="size-2 first:rounded-l-sm last:rounded-r-sm"
+                                        style={{ backgroundColor: color }}
+                                      />
+                                    ))}
+                                  </span>
+                                </div>
+                              )}
+                              {info?.metadata.hasGps && (
+                                <p
+                                  className={`text-[9px] font-medium ${
+                                    keepsLocation ? "text-amber-300" : "text-(--muted)"
+                                  }`}
+                                >
+                                  📍 Location data
+                                  {keepsLocation
+                                    ? " will be kept in the output"
+                                    : " will be removed"}
+                                </p>
+                              )}
+                              {entry?.warnings?.map((warning) => (
+                                <p
+                                  key={warning}
+                                  className="text-[9px] font-medium text-amber-300"
+                                >
+                                  {warning}
+                                </p>
+                              ))}
                             </div>
                           </div>
+                          <button
+                            type="button"
+                            aria-label={`Options for ${item.file.name}`}
+                            title="Override options for this file"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              setEditingOverride((current) =>
+                                current === item.id ? null : item.id
+                              );
+                            }}
+                            className={`flex size-5 shrink-0 items-center justify-center rounded-sm text-[10px] transition hover:bg-white/10 ${
+                              override ? "text-(--sea)" : ""
+                            }`}
+                          >
+                            ⚙
+                          </button>
+                          <button
+                            type="button"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              removeFile(item.id);
+                            }}
+                            className="flex size-5 shrink-0 items-center justify-center rounded-sm text-[10px] transition hover:bg-red-500/20 hover:text-red-300"
+                          >
+                            ×
+                          </button>
                         </div>
-                        <button
-                          type="button"
-                          onClick={(e) => {
-                            e.stopPropagation();
-                            removeFile(item.id);
-                          }}
-                          className="flex size-5 shrink-0 items-center justify-center rounded-sm text-[10px] transition hover:bg-red-500/20 hover:text-red-300"
-                        >
-                          ×
-                        </button>
-                      </div>
-                    ))}
+                      );
+                    })}
                   </div>
                 )}
               </div>
@@ -468,15 +1658,16 @@ export default function Home() {
                   <select
                     id="output-format"
                     value={format}
-                    onChange={(e) => setFormat(e.target.value as OutputFormat)}
+                    onChange={(e) => handleFormatChange(e.target.value)}
                     className="w-full rounded-lg border border-white/5 bg-white/5 px-3 py-2 text-xs font-semibold transition outline-none focus:border-(--sea)/50"
                   >
-                    {Object.entries(formatLabels).map(([val, label]) => (
-                      <option key={val} value={val}>
-                        {label}
+                    {formatOptions.map((option) => (
+                      <option key={option.format} value={option.format}>
+                        {option.label}
                       </option>
                     ))}
                   </select>
+                  <FieldError message={fieldErrors.format} />
                 </div>
 
                 <div className="grid gap-2">
@@ -489,23 +1680,97 @@ export default function Home() {
                     </span>
                   </div>
                   <div className="grid grid-cols-5 gap-1.5">
-                    {(["tiny", "small", "balanced", "crisp", "custom"] as Preset[]).map(
-                      (p) => (
-                        <button
-                          type="button"
-                          key={p}
-                          onClick={() => handlePresetChange(p)}
-                          className={`rounded-lg py-1.5 text-[9px] font-bold tracking-tighter uppercase transition ${
-                            preset === p
-                              ? "bg-(--sea) text-white shadow-md"
-                              : "bg-white/5 text-(--muted) hover:bg-white/10"
-                          }`}
-                        >
-                          {p}
-                        </button>
-                      )
-                    )}
+                    {([...presets, "custom"] as Preset[]).map((p) => (
+                      <button
+                        type="button"
+                        key={p}
+                        onClick={() => handlePresetChange(p)}
+                        className={`rounded-lg py-1.5 text-[9px] font-bold tracking-tighter uppercase transition ${
+                          preset === p
+                            ? "bg-(--sea) text-white shadow-md"
+                            : "bg-white/5 text-(--muted) hover:bg-white/10"
+                        }`}
+                      >
+                        {p}
+                      </button>
+                    ))}
+                  </div>
+                  <div className="flex gap-1.5">
+                    <select
+                      aria-label="Saved presets"
+                      value={selectedPreset}
+                      onChange={(e) => handleSelectPreset(e.target.value)}
+                      className="min-w-0 flex-1 rounded-lg border border-white/5 bg-white/5 px-2 py-1.5 text-[10px] font-semibold transition outline-none focus:border-(--sea)/50"
+                    >
+                      <option value="">
+                        {savedPresets.length ? "My presets…" : "No saved presets"}
+                      </option>
+                      {savedPresets.map((item) => (
+                        <option key={item.name} value={item.name}>
+                          {item.name}
+                        </option>
+                      ))}
+                    </select>
+                    <button
+                      type="button"
+                      onClick={exportPreset}
+                      disabled={!selectedPreset}
+                      className="rounded-lg bg-white/5 px-2 text-[9px] font-bold text-(--muted) uppercase transition hover:bg-white/10 disabled:opacity-30"
+                    >
+                      Export
+                    </button>
+                    <button
+                      type="button"
+                      onClick={deletePreset}
+                      disabled={!selectedPreset}
+                      className="rounded-lg bg-white/5 px-2 text-[9px] font-bold text-(--muted) uppercase transition hover:bg-white/10 disabled:opacity-30"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                  <div className="flex gap-1.5">
+                    <input
+                      aria-label="Preset name"
+                      type="text"
+                      value={presetName}
+                      onChange={(e) => setPresetName(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === "Enter") handleSavePreset();
+                      }}
+                      placeholder="Save current settings as…"
+                      maxLength={100}
+                      className="min-w-0 flex-1 rounded-lg border border-white/5 bg-white/5 px-2 py-1.5 text-[10px] font-semibold transition outline-none focus:border-(--sea)/50"
+                    />
+                    <button
+                      type="button"
+                      onClick={handleSavePreset}
+                      disabled={!presetName.trim()}
+                      className="rounded-lg bg-(--sea) px-2 text-[9px] font-bold text-white uppercase transition disabled:opacity-30"
+                    >
+                      Save
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => presetImportRef.current?.click()}
+                      className="rounded-lg bg-white/5 px-2 text-[9px] font-bold text-(--muted) uppercase transition hover:bg-white/10"
+                    >
+                      Import
+                    </button>
+                    <input
+                      ref={presetImportRef}
+                      type="file"
+                      accept=".json,application/json"
+                      hidden
+                      onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        if (file) {
+                          void importPresets(file);
+                          e.target.value = "";
+                        }
+                      }}
+                    />
                   </div>
+                  <FieldError message={fieldErrors.preset} />
                 </div>
 
                 <div className="grid gap-2">
@@ -530,6 +1795,7 @@ export default function Home() {
                     }}
                     className="h-1 w-full cursor-pointer appearance-none rounded-lg bg-white/10 accent-(--sea)"
                   />
+                  <FieldError message={fieldErrors.quality} />
                 </div>
 
                 <div className="grid gap-1.5">
@@ -552,6 +1818,31 @@ export default function Home() {
                       KB
                     </span>
                   </div>
+                  <FieldError message={fieldErrors.targetSizeKB} />
+                </div>
+
+                <div className="grid gap-1.5">
+                  <label
+                    htmlFor="target-ssim"
+                    className="text-[10px] font-bold tracking-wider text-(--muted) uppercase"
+                  >
+                    Target SSIM
+                  </label>
+                  <div className="relative">
+                    <input
+                      id="target-ssim"
+                      type="number"
+                      placeholder="Off (e.g. 0.98)"
+                      min={0}
+                      max={1}
+                      step={0.005}
+                      value={targetSsim}
+                      onChange={(e) => setTargetSsim(e.target.value)}
+                      disabled={Boolean(targetSizeKB)}
+                      className="w-full rounded-lg border border-white/5 bg-white/5 px-3 py-2 text-xs font-semibold transition outline-none focus:border-(--sea)/50 disabled:opacity-30"
+                    />
+                  </div>
+                  <FieldError message={fieldErrors.targetSsim} />
                 </div>
               </div>
 
@@ -562,9 +1853,7 @@ export default function Home() {
                     Est. Size
                   </span>
                   <span className="font-mono font-bold">
-                    {estimate.length
-                      ? formatBytes(estimate.reduce((s, i) => s + i.outputSize, 0))
-                      : "—"}
+                    {estimate.length ? formatBytes(estimateTotals.output) : "—"}
                   </span>
                 </div>
                 <div className="h-1 w-full overflow-hidden rounded-full bg-white/5">
@@ -572,7 +1861,7 @@ export default function Home() {
                     className="h-full bg-linear-to-r from-(--sea) to-(--sea-hover) transition-all duration-500"
                     style={{
                       width: estimate.length
-                        ? `${Math.min(100, (estimate.reduce((s, i) => s + i.outputSize, 0) / Math.max(1, totalInputSize)) * 100)}%`
+                        ? `${Math.min(100, (estimateTotals.output / Math.max(1, estimateTotals.input)) * 100)}%`
                         : "0%",
                     }}
                   />
@@ -587,8 +1876,8 @@ export default function Home() {
                           Math.max(
                             0,
                             100 -
-                              (estimate.reduce((s, i) => s + i.outputSize, 0) /
-                                Math.max(1, totalInputSize)) *
+                              (estimateTotals.output /
+                                Math.max(1, estimateTotals.input)) *
                                 100
                           )
                         )
@@ -629,6 +1918,7 @@ export default function Home() {
                         PX
                       </span>
                     </div>
+                    <FieldError message={fieldErrors.width} />
                   </div>
                   <div className="grid gap-1.5">
                     <label
@@ -650,6 +1940,7 @@ export default function Home() {
                         PX
                       </span>
                     </div>
+                    <FieldError message={fieldErrors.height} />
                   </div>
                 </div>
 
@@ -663,28 +1954,496 @@ export default function Home() {
                   <select
                     id="fit-strategy"
                     value={fit}
-                    onChange={(e) =>
-                      setFit(e.target.value as "inside" | "cover" | "contain")
-                    }
+                    onChange={(e) => setFit(e.target.value as Fit)}
                     className="w-full rounded-lg border border-white/5 bg-white/5 px-3 py-2 text-xs font-bold transition outline-none focus:border-(--sea)/50"
                   >
                     <option value="inside">Maintain Ratio</option>
                     <option value="contain">Contain (Add Padding)</option>
                     <option value="cover">Cover (Auto Crop)</option>
                   </select>
+                  <FieldError message={fieldErrors.fit} />
+                </div>
+
+                <div className="grid gap-1.5">
+                  <span className="text-[10px] font-bold tracking-wider text-(--muted) uppercase">
+                    Crop
+                  </span>
+                  <div className="grid grid-cols-2 gap-2">
+                    <select
+                      aria-label="Aspect ratio"
+                      value={aspect}
+                      onChange={(e) => setAspect(e.target.value as AspectRatio)}
+                      className="w-full rounded-lg border border-white/5 bg-white/5 px-3 py-2 text-xs font-bold transition outline-none focus:border-(--sea)/50"
+                    >
+                      {aspectRatios.map((option) => (
+                        <option key={option} value={option}>
+                          {option === "original" ? "Original Ratio" : option}
+                        </option>
+                      ))}
+                    </select>
+                    <select
+                      aria-label="Crop strategy"
+                      value={focus ? "center" : cropStrategy}
+                      onChange={(e) => setCropStrategy(e.target.value as CropStrategy)}
+                      disabled={Boolean(focus)}
+                      className="w-full rounded-lg border border-white/5 bg-white/5 px-3 py-2 text-xs font-bold transition outline-none focus:border-(--sea)/50 disabled:opacity-30"
+                    >
+                      <option value="center">Center</option>
+                      <option value="attention">Attention</option>
+                      <option value="entropy">Entropy</option>
+                    </select>
+                  </div>
+                  <input
+                    aria-label="Crop rectangle"
+                    type="text"
+                    value={cropRect}
+                    onChange={(e) => setCropRect(e.target.value)}
+                    placeholder="Rect: left, top, width, height"
+                    className="w-full rounded-lg border border-white/5 bg-white/5 px-3 py-2 text-xs font-bold transition outline-none focus:border-(--sea)/50"
+                  />
+                  <FieldError
+                    message={
+                      fieldErrors.crop ??
+                      fieldErrors.aspect ??
+                      fieldErrors.focusX ??
+                      fieldErrors.cropStrategy
+                    }
+                  />
+                </div>
+
+                <div className="grid gap-1.5">
+                  <span className="text-[10px] font-bold tracking-wider text-(--muted) uppercase">
+                    Watermark
+                  </span>
+                  <div className="grid grid-cols-[1fr_auto] gap-2">
+                    <input
+                      aria-label="Watermark text"
+                      type="text"
+                      value={watermarkText}
+                      onChange={(e) => setWatermarkText(e.target.value)}
+                      placeholder={
+                        watermarkImage ? watermarkImage.file.name : "Text, e.g. © Acme"
+                      }
+                      disabled={Boolean(watermarkImage)}
+                      className="w-full rounded-lg border border-white/5 bg-white/5 px-3 py-2 text-xs font-bold transition outline-none focus:border-(--sea)/50 disabled:opacity-30"
+                    />
+                    {watermarkImage ? (
+                      <button
+                        type="button"
+                        onClick={() => setWatermarkFile(null)}
+                        className="rounded-lg bg-white/5 px-3 text-[10px] font-bold transition hover:bg-red-500/20"
+                      >
+                        Remove
+                      </button>
+                    ) : (
+                      <label className="flex cursor-pointer items-center rounded-lg bg-white/5 px-3 text-[10px] font-bold transition hover:bg-white/10">
+                        Logo
+                        <input
+                          type="file"
+                          accept="image/*"
+                          hidden
+                          onChange={(e) => {
+                            setWatermarkFile(e.target.files?.[0] ?? null);
+                            e.target.value = "";
+                          }}
+                        />
+                      </label>
+                    )}
+                  </div>
+                  <div className="grid grid-cols-[auto_1fr] items-start gap-3">
+                    <div
+                      className="grid grid-cols-3 gap-0.5"
+                      role="group"
+                      aria-label="Watermark position"
+                    >
+                      {watermarkPositions.map((position) => (
+                        <button
+                          key={position}
+                          type="button"
+                          title={position}
+                          onClick={() => setWatermarkPosition(position)}
+                          disabled={watermarkTile}
+                          className={`size-4 rounded-sm transition disabled:opacity-30 ${
+                            position === watermarkPosition
+                              ? "bg-(--sea)"
+                              : "bg-white/10 hover:bg-white/20"
+                          }`}
+                        />
+                      ))}
+                    </div>
+                    <div className="grid gap-1.5">
+                      <label className="flex items-center justify-between gap-2 text-[9px] font-bold text-(--muted)">
+                        Opacity
+                        <input
+                          type="range"
+                          min={0}
+                          max={1}
+                          step={0.05}
+                          value={watermarkOpacity}
+                          onChange={(e) => setWatermarkOpacity(Number(e.target.value))}
+                          className="h-1 w-24 cursor-pointer appearance-none rounded-lg bg-white/10 accent-(--sea)"
+                        />
+                      </label>
+                      <label className="flex items-center justify-between gap-2 text-[9px] font-bold text-(--muted)">
+                        Scale
+                        <input
+                          type="range"
+                          min={0.05}
+                          max={1}
+                          step={0.05}
+                          value={watermarkScale}
+                          onChange={(e) => setWatermarkScale(Number(e.target.value))}
+                          className="h-1 w-24 cursor-pointer appearance-none rounded-lg bg-white/10 accent-(--sea)"
+                        />
+                      </label>
+                      <div className="flex items-center justify-between gap-2">
+                        <input
+                          aria-label="Watermark margin"
+                          type="number"
+                          min={0}
+                          value={watermarkMargin}
+                          onChange={(e) => setWatermarkMargin(e.target.value)}
+                          placeholder="Margin 16"
+                          className="w-20 rounded-lg border border-white/5 bg-white/5 px-2 py-1 text-[10px] font-bold transition outline-none focus:border-(--sea)/50"
+                        />
+                        <label className="flex cursor-pointer items-center gap-1.5 text-[9px] font-bold text-(--muted)">
+                          <input
+                            type="checkbox"
+                            checked={watermarkTile}
+                            onChange={(e) => setWatermarkTile(e.target.checked)}
+                            className="size-3 cursor-pointer accent-(--sea)"
+                          />
+                          Tile
+                        </label>
+                      </div>
+                    </div>
+                  </div>
+                  <FieldError
+                    message={
+                      fieldErrors.watermark ??
+                      fieldErrors.watermarkText ??
+                      fieldErrors.watermarkOpacity ??
+                      fieldErrors.watermarkScale ??
+                      fieldErrors.watermarkMargin
+                    }
+                  />
+                </div>
+
+                <div className="grid gap-1.5">
+                  <div className="flex items-center justify-between">
+                    <span className="text-[10px] font-bold tracking-wider text-(--muted) uppercase">
+                      Preview
+                    </span>
+                    {previewFile && (
+                      <button
+                        type="button"
+                        onClick={() => {
+                          setComparing(!comparing);
+                          setComparison(null);
+                          setComparisonError("");
+                          setRendering(false);
+                        }}
+                        className="text-[9px] font-bold text-(--sea)"
+                      >
+                        {comparing ? "Hide Output" : "Compare Output"}
+                      </button>
+                    )}
+                  </div>
+                  {previewFile && (
+                    <>
+                      <button
+                        type="button"
+                        onClick={handlePickFocus}
+                        className="@container relative block w-full cursor-crosshair overflow-hidden rounded-lg"
+                      >
+                        <Image
+                          src={previewFile.url}
+                          alt="Preview"
+                          width={0}
+                          height={0}
+                          sizes="100vw"
+                          className="h-auto w-full"
+                          onLoad={(e) => setPreviewWidth(e.currentTarget.naturalWidth)}
+                          unoptimized
+                        />
+                        {watermarkMark && (
+                          <div
+                            className={`pointer-events-none absolute inset-0 flex overflow-hidden ${
+                              watermarkTile
+                                ? "flex-wrap content-start"
+                                : watermarkAlignment[watermarkPosition]
+                            }`}
+                            style={{
+                              padding: watermarkInset,
+                              gap: watermarkTile
+                                ? `calc(${watermarkInset} * 2)`
+                                : undefined,
+                            }}
+                          >
+                            {Array.from(
+                              { length: watermarkTile ? 60 : 1 },
+                              (_, index) => (
+                                <div key={index} className="shrink-0">
+                                  {watermarkMark}
+                                </div>
+                              )
+                            )}
+                          </div>
+                        )}
+                        {focus && (
+                          <span
+                            className="absolute size-3 -translate-1/2 rounded-full border-2 border-white bg-(--sea) shadow-sm"
+                            style={{
+                              left: `${focus.x * 100}%`,
+                              top: `${focus.y * 100}%`,
+                            }}
+                          />
+                        )}
+                      </button>
+                      <div className="flex items-center justify-between text-[9px] text-(--muted)">
+                        <span>
+                          {focus
+                            ? `Focal point ${Math.round(focus.x * 100)}%, ${Math.round(focus.y * 100)}%`
+                            : "Click the preview to set a focal point"}
+                        </span>
+                        {focus && (
+                          <button
+                            type="button"
+                            onClick={() => setFocus(null)}
+                            className="font-bold text-(--sea)"
+                          >
+                            Clear
+                          </button>
+                        )}
+                      </div>
+                      {comparing && (
+                        <>
+                          {comparison && (
+                            <ComparisonView
+                              before={comparison.before}
+                              after={comparison.after}
+                            />
+                          )}
+                          <div className="flex items-center justify-between text-[9px] text-(--muted)">
+                            <span>
+                              {comparison
+                                ? [
+                                    comparison.format.toUpperCase(),
+                                    `Q${comparison.quality}`,
+                                    formatBytes(comparison.size),
+                                    comparison.ssim !== undefined &&
+                                      `SSIM ${comparison.ssim.toFixed(3)}`,
+                                  ]
+                                    .filter(Boolean)
+                                    .join(" · ")
+                                : "Encoding preview…"}
+                            </span>
+                            {rendering && comparison && <span>Updating…</span>}
+                          </div>
+                          <FieldError message={comparisonError} />
+                        </>
+                      )}
+                    </>
+                  )}
+                </div>
+
+                <div className="grid grid-cols-2 gap-2">
+                  <div className="grid gap-1.5">
+                    <label
+                      htmlFor="frame-step"
+                      className="text-[10px] font-bold tracking-wider text-(--muted) uppercase"
+                    >
+                      Keep Every Nth Frame
+                    </label>
+                    <input
+                      id="frame-step"
+                      type="number"
+                      min={1}
+                      value={frameStep}
+                      onChange={(e) => setFrameStep(e.target.value)}
+                      placeholder="1"
+                      disabled={firstFrameOnly}
+                      className="w-full rounded-lg border border-white/5 bg-white/5 px-3 py-2 text-xs font-bold transition outline-none focus:border-(--sea)/50 disabled:opacity-30"
+                    />
+                    <FieldError message={fieldErrors.frameStep} />
+                  </div>
+                  <div className="grid gap-1.5">
+                    <label
+                      htmlFor="max-fps"
+                      className="text-[10px] font-bold tracking-wider text-(--muted) uppercase"
+                    >
+                      Max FPS
+                    </label>
+                    <input
+                      id="max-fps"
+                      type="number"
+                      min={0}
+                      value={maxFps}
+                      onChange={(e) => setMaxFps(e.target.value)}
+                      placeholder="Source"
+                      disabled={firstFrameOnly}
+                      className="w-full rounded-lg border border-white/5 bg-white/5 px-3 py-2 text-xs font-bold transition outline-none focus:border-(--sea)/50 disabled:opacity-30"
+                    />
+                    <FieldError message={fieldErrors.maxFps} />
+                  </div>
+                </div>
+
+                <div className="grid gap-1.5">
+                  <label
+                    htmlFor="responsive-widths"
+                    className="text-[10px] font-bold tracking-wider text-(--muted) uppercase"
+                  >
+                    Responsive Set
+                  </label>
+                  <input
+                    id="responsive-widths"
+                    type="text"
+                    value={responsiveWidths}
+                    onChange={(e) => setResponsiveWidths(e.target.value)}
+                    placeholder="Widths, e.g. 320, 640, 1024, 1920"
+                    className="w-full rounded-lg border border-white/5 bg-white/5 px-3 py-2 text-xs font-bold transition outline-none focus:border-(--sea)/50"
+                  />
+                  <FieldError message={fieldErrors.responsiveWidths} />
+                  <div className="grid grid-cols-4 gap-1.5">
+                    {responsiveFormatOptions.map((f) => (
+                      <button
+                        type="button"
+                        key={f}
+                        disabled={!responsiveWidths.trim()}
+                        onClick={() =>
+                          setResponsiveFormats((prev) =>
+                            prev.includes(f)
+                              ? prev.filter((entry) => entry !== f)
+                              : [...prev, f]
+                          )
+                        }
+                        className={`rounded-lg py-1.5 text-[9px] font-bold tracking-tighter uppercase transition disabled:cursor-not-allowed disabled:opacity-30 ${
+                          responsiveFormats.includes(f)
+                            ? "bg-(--sea) text-white shadow-md"
+                            : "bg-white/5 text-(--muted) hover:bg-white/10"
+                        }`}
+                      >
+                        {f}
+                      </button>
+                    ))}
+                  </div>
+                  <FieldError message={fieldErrors.responsiveFormats} />
+                </div>
+
+                <div className="grid gap-1.5">
+                  <label
+                    htmlFor="filename-template"
+                    className="text-[10px] font-bold tracking-wider text-(--muted) uppercase"
+                  >
+                    File Names
+                  </label>
+                  <input
+                    id="filename-template"
+                    type="text"
+                    value={filenameTemplate}
+                    onChange={(e) => setFilenameTemplate(e.target.value)}
+                    placeholder="{name}"
+                    title="Tokens: {name} {width} {height} {format} {quality} {index} {hash8}"
+                    className="w-full rounded-lg border border-white/5 bg-white/5 px-3 py-2 text-xs font-bold transition outline-none focus:border-(--sea)/50"
+                  />
+                  <FieldError message={fieldErrors.filename} />
+                </div>
+
+                <div className="grid gap-1.5">
+                  <span className="text-[10px] font-bold tracking-wider text-(--muted) uppercase">
+                    Color
+                  </span>
+                  <div className="grid grid-cols-2 gap-2">
+                    <select
+                      aria-label="Output color space"
+                      value={colorSpace}
+                      onChange={(e) => setColorSpace(e.target.value as ColorSpace)}
+                      className="w-full rounded-lg border border-white/5 bg-white/5 px-3 py-2 text-xs font-bold transition outline-none focus:border-(--sea)/50"
+                    >
+                      {colorSpaces.map((space) => (
+                        <option key={space} value={space}>
+                          {colorSpaceLabels[space]}
+                        </option>
+                      ))}
+                    </select>
+                    <select
+                      aria-label="Bit depth"
+                      value={bitDepth}
+                      onChange={(e) => setBitDepth(e.target.value as BitDepth)}
+                      className="w-full rounded-lg border border-white/5 bg-white/5 px-3 py-2 text-xs font-bold transition outline-none focus:border-(--sea)/50"
+                    >
+                      {bitDepths.map((depth) => (
+                        <option key={depth} value={depth}>
+                          {bitDepthLabels[depth]}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <FieldError message={fieldErrors.colorSpace ?? fieldErrors.bitDepth} />
+                </div>
+
+                <div className="grid gap-1.5">
+                  <label
+                    htmlFor="metadata-policy"
+                    className="text-[10px] font-bold tracking-wider text-(--muted) uppercase"
+                  >
+                    Metadata
+                  </label>
+                  <select
+                    id="metadata-policy"
+                    value={metadataPolicy}
+                    onChange={(e) => setMetadataPolicy(e.target.value as MetadataPolicy)}
+                    className="w-full rounded-lg border border-white/5 bg-white/5 px-3 py-2 text-xs font-bold transition outline-none focus:border-(--sea)/50"
+                  >
+                    {metadataPolicies.map((policy) => (
+                      <option key={policy} value={policy}>
+                        {metadataPolicyLabels[policy]}
+                      </option>
+                    ))}
+                  </select>
+                  {metadataPolicy === "allowlist" && (
+                    <input
+                      aria-label="Tags to keep"
+                      type="text"
+                      value={metadataAllow}
+                      onChange={(e) => setMetadataAllow(e.target.value)}
+                      placeholder="Tags, e.g. Make, Model, dc:creator"
+                      className="w-full rounded-lg border border-white/5 bg-white/5 px-3 py-2 text-xs font-bold transition outline-none focus:border-(--sea)/50"
+                    />
+                  )}
+                  <div className="grid grid-cols-2 gap-2">
+                    <input
+                      aria-label="Copyright"
+                      type="text"
+                      value={copyright}
+                      onChange={(e) => setCopyright(e.target.value)}
+                      placeholder="Copyright"
+                      className="w-full rounded-lg border border-white/5 bg-white/5 px-3 py-2 text-xs font-bold transition outline-none focus:border-(--sea)/50"
+                    />
+                    <input
+                      aria-label="Artist"
+                      type="text"
+                      value={artist}
+                      onChange={(e) => setArtist(e.target.value)}
+                      placeholder="Artist"
+                      className="w-full rounded-lg border border-white/5 bg-white/5 px-3 py-2 text-xs font-bold transition outline-none focus:border-(--sea)/50"
+                    />
+                  </div>
+                  <FieldError
+                    message={
+                      fieldErrors.metadata ??
+                      fieldErrors.metadataAllow ??
+                      fieldErrors.copyright ??
+                      fieldErrors.artist
+                    }
+                  />
                 </div>
 
                 <div className="grid gap-2 pt-1">
                   {[
-                    {
-                      id: "opt-exif",
-                      label: "Keep EXIF Metadata",
-                      state: keepMetadata,
-                      setter: setKeepMetadata,
-                      tip: "Preserves copyright",
-                    },
                     {
                       id: "opt-progressive",
+                      field: "progressive",
                       label: "Progressive Scan",
                       state: progressive,
                       setter: setProgressive,
@@ -693,59 +2452,91 @@ export default function Home() {
                     },
                     {
                       id: "opt-lossless",
+                      field: "lossless",
                       label: "Lossless Compression",
                       state: lossless,
                       setter: setLossless,
                       tip: "Perfect detail",
-                      disabled: format !== "webp",
+                      disabled: !losslessFormats.includes(format),
+                    },
+                    {
+                      id: "opt-first-frame",
+                      field: "firstFrameOnly",
+                      label: "First Frame Only",
+                      state: firstFrameOnly,
+                      setter: setFirstFrameOnly,
+                      tip: "Drops animation",
                     },
                     {
                       id: "opt-flatten",
+                      field: "flatten",
                       label: "Flatten Transparency",
                       state: flattenBackground,
                       setter: setFlattenBackground,
                       tip: "Removes alpha",
                     },
+                    {
+                      id: "opt-placeholders",
+                      field: "placeholders",
+                      label: "Blur Placeholders",
+                      state: placeholders,
+                      setter: setPlaceholders,
+                      tip: "BlurHash, ThumbHash & LQIP",
+                    },
+                    {
+                      id: "opt-pass-through",
+                      field: "passThrough",
+                      label: "Keep Other Files",
+                      state: passThrough,
+                      setter: setPassThrough,
+                      tip: "Non-images in ZIPs",
+                      disabled: !files.some((item) => item.archive),
+                    },
                   ].map((opt) => (
-                    <div
-                      key={opt.id}
-                      className={`group relative flex items-center justify-between gap-3 rounded-lg border border-white/5 bg-white/5 px-3 py-2 transition ${opt.disabled ? "cursor-not-allowed opacity-30" : "cursor-pointer hover:bg-white/10"}`}
-                    >
-                      <span className="absolute right-full mr-2 hidden min-w-max rounded-sm bg-black/80 px-2 py-1 text-[10px] text-white group-hover:block">
-                        {opt.tip}
-                      </span>
-                      <label
-                        htmlFor={opt.id}
-                        className="cursor-pointer text-[10px] font-bold select-none"
+                    <div key={opt.id} className="grid gap-1">
+                      <div
+                        className={`group relative flex items-center justify-between gap-3 rounded-lg border border-white/5 bg-white/5 px-3 py-2 transition ${opt.disabled ? "cursor-not-allowed opacity-30" : "cursor-pointer hover:bg-white/10"}`}
                       >
-                        {opt.label}
-                      </label>
-                      <input
-                        id={opt.id}
-                        type="checkbox"
-                        checked={opt.state}
-                        onChange={(e) => opt.setter(e.target.checked)}
-                        disabled={opt.disabled}
-                        className="size-3.5 cursor-pointer rounded-sm accent-(--sea)"
-                      />
+                        <span className="absolute right-full mr-2 hidden min-w-max rounded-sm bg-black/80 px-2 py-1 text-[10px] text-white group-hover:block">
+                          {opt.tip}
+                        </span>
+                        <label
+                          htmlFor={opt.id}
+                          className="cursor-pointer text-[10px] font-bold select-none"
+                        >
+                          {opt.label}
+                        </label>
+                        <input
+                          id={opt.id}
+                          type="checkbox"
+                          checked={opt.state}
+                          onChange={(e) => opt.setter(e.target.checked)}
+                          disabled={opt.disabled}
+                          className="size-3.5 cursor-pointer rounded-sm accent-(--sea)"
+                        />
+                      </div>
+                      <FieldError message={fieldErrors[opt.field]} />
                     </div>
                   ))}
                 </div>
 
-                <div className="flex items-center justify-between gap-3 rounded-lg border border-white/5 bg-white/5 px-3 py-2">
-                  <label
-                    htmlFor="bg-color"
-                    className="text-[10px] font-bold text-(--muted)"
-                  >
-                    BG Fill
-                  </label>
-                  <input
-                    id="bg-color"
-                    type="color"
-                    value={background}
-                    onChange={(e) => setBackground(e.target.value)}
-                    className="h-5 w-8 shrink-0 cursor-pointer overflow-hidden rounded-sm border-0 bg-transparent"
-                  />
+                <div className="grid gap-1">
+                  <div className="flex items-center justify-between gap-3 rounded-lg border border-white/5 bg-white/5 px-3 py-2">
+                    <label
+                      htmlFor="bg-color"
+                      className="text-[10px] font-bold text-(--muted)"
+                    >
+                      BG Fill
+                    </label>
+                    <input
+                      id="bg-color"
+                      type="color"
+                      value={background}
+                      onChange={(e) => setBackground(e.target.value)}
+                      className="h-5 w-8 shrink-0 cursor-pointer overflow-hidden rounded-sm border-0 bg-transparent"
+                    />
+                  </div>
+                  <FieldError message={fieldErrors.background} />
                 </div>
               </div>
 
@@ -0,0 +1,132 @@
+import sharp from "sharp";
+import { hasTransparency, isGraphic } from "./best";
+import { getCodecSupport } from "./codecs";
+import { type DetectedInput, detectInput } from "./detect";
+import { uploadLimits } from "./limits";
+import { describeMetadata, type MetadataReport } from "./metadata";
+import type { EncodableFormat, Preset } from "./types";
+
+export type ImageAnalysis = {
+  format: EncodableFormat;
+  // Upright dimensions of one frame.
+  width: number;
+  height: number;
+  orientation: number;
+  hasAlpha: boolean;
+  transparent: boolean;
+  frames: number;
+  colorSpace: string;
+  bitDepth: 8 | 16;
+  icc?: string;
+  dominant: string;
+  palette: string[];
+  kind: "photo" | "graphic";
+  suggestedPreset: Preset;
+  suggestedFormat: EncodableFormat;
+  metadata: MetadataReport;
+};
+
+const PALETTE_SAMPLE_SIDE = 64;
+const PALETTE_SIZE = 6;
+// Colours are bucketed at 4 bits per channel, then buckets closer than this are merged
+// into the palette entry they resemble.
+const BUCKET_SHIFT = 4;
+const MIN_PALETTE_DISTANCE = 48;
+
+type Bucket = { count: number; r: number; g: number; b: number };
+
+function toHex(r: number, g: number, b: number) {
+  return `#${[r, g, b].map((value) => value.toString(16).padStart(2, "0")).join("")}`;
+}
+
+function distance(a: Bucket, b: Bucket) {
+  return Math.hypot(
+    a.r / a.count - b.r / b.count,
+    a.g / a.count - b.g / b.count,
+    a.b / a.count - b.b / b.count
+  );
+}
+
+// Most common colours first, ignoring pixels that are mostly transparent.
+async function readPalette(buffer: Buffer) {
+  const { data, info } = await sharp(buffer, {
+    limitInputPixels: uploadLimits.maxInputPixels,
+  })
+    .resize(PALETTE_SAMPLE_SIDE, PALETTE_SAMPLE_SIDE, { fit: "inside" })
+    // sharp leaves 16-bit inputs in their own profile unless told to convert.
+    .withIccProfile("srgb", { attach: false })
+    .ensureAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  const buckets = new Map<number, Bucket>();
+  for (let p = 0; p < data.length; p += info.channels) {
+    if (data[p + 3] < 128) continue;
+    const key =
+      ((data[p] >> BUCKET_SHIFT) << 8) |
+      ((data[p + 1] >> BUCKET_SHIFT) << 4) |
+      (data[p + 2] >> BUCKET_SHIFT);
+    const bucket = buckets.get(key) ?? { count: 0, r: 0, g: 0, b: 0 };
+    bucket.count += 1;
+    bucket.r += data[p];
+    bucket.g += data[p + 1];
+    bucket.b += data[p + 2];
+    buckets.set(key, bucket);
+  }
+
+  const picked: Bucket[] = [];
+  for (const bucket of [...buckets.values()].sort((a, b) => b.count - a.count)) {
+    if (picked.every((entry) => distance(entry, bucket) >= MIN_PALETTE_DISTANCE)) {
+      picked.push(bucket);
+      if (picked.length === PALETTE_SIZE) break;
+    }
+  }
+  return picked.map(({ count, r, g, b }) =>
+    toHex(Math.round(r / count), Math.round(g / count), Math.round(b / count))
+  );
+}
+
+// Flat artwork shows compression artifacts on its edges sooner than photos do, so it
+// gets the higher quality preset and a format that keeps it exact.
+async function suggestFormat(
+  detected: DetectedInput,
+  graphic: boolean,
+  transparent: boolean
+): Promise<EncodableFormat> {
+  const { output } = await getCodecSupport();
+  if (detected.frames > 1) return "webp";
+  if (graphic) return "png";
+  if (output.includes("avif")) return "avif";
+  return transparent ? "webp" : "jpeg";
+}
+
+export async function analyzeImage(
+  buffer: Buffer,
+  inputName: string
+): Promise<ImageAnalysis> {
+  const detected = await detectInput(buffer, inputName);
+  const metadata = await sharp(buffer, { limitInputPixels: false }).metadata();
+  const { width, height } = metadata.autoOrient;
+  const graphic = await isGraphic(buffer);
+  const transparent = await hasTransparency(buffer, detected);
+  const palette = await readPalette(buffer);
+
+  return {
+    format: detected.format,
+    width,
+    height: detected.frames > 1 ? (metadata.pageHeight ?? height) : height,
+    orientation: metadata.orientation ?? 1,
+    hasAlpha: detected.hasAlpha,
+    transparent,
+    frames: detected.frames,
+    colorSpace: metadata.space ?? "srgb",
+    bitDepth: detected.highBitDepth ? 16 : 8,
+    icc: detected.profile || undefined,
+    dominant: palette[0] ?? "#000000",
+    palette,
+    kind: graphic ? "graphic" : "photo",
+    suggestedPreset: graphic ? "crisp" : "balanced",
+    suggestedFormat: await suggestFormat(detected, graphic, transparent),
+    metadata: await describeMetadata(buffer),
+  };
+}
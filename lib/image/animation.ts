@@ -0,0 +1,116 @@
+import sharp from "sharp";
+import { encoders } from "./formats";
+import { uploadLimits } from "./limits";
+import { type DecodedImage, decodeImage, type ImageInput } from "./pipeline";
+import { sniffFormat } from "./sniff";
+import type { AnimationOptions, EncodableFormat } from "./types";
+
+// Browsers treat missing or tiny GIF delays as roughly 10fps.
+const DEFAULT_DELAY_MS = 100;
+
+export type AnimationSource = {
+  input: ImageInput;
+  animated: boolean;
+  sourceFrames: number;
+  delay?: number[];
+  loop?: number;
+  warning?: string;
+};
+
+// Chooses which frames to keep, folding the delay of every dropped frame into the
+// frame before it so the animation keeps its overall duration.
+export function planFrames(delays: number[], options: AnimationOptions) {
+  const minDelay = options.maxFps > 0 ? 1000 / options.maxFps : 0;
+  const keep: number[] = [];
+  const delay: number[] = [];
+  let pending = 0;
+
+  delays.forEach((frameDelay, index) => {
+    const isStep = index % options.frameStep === 0;
+    const due = keep.length === 0 || (isStep && pending >= minDelay);
+    if (due) {
+      if (keep.length) delay[delay.length - 1] = Math.round(pending);
+      keep.push(index);
+      delay.push(frameDelay);
+      pending = frameDelay;
+    } else {
+      pending += frameDelay;
+    }
+  });
+  if (keep.length) delay[delay.length - 1] = Math.round(pending);
+
+  return { keep, delay };
+}
+
+function selectFrames(decoded: DecodedImage, keep: number[]): DecodedImage {
+  const { width, channels } = decoded.info;
+  const pageHeight = decoded.info.pageHeight ?? decoded.info.height;
+  const frameBytes = width * pageHeight * channels;
+  const data = Buffer.concat(
+    keep.map((index) =>
+      decoded.data.subarray(index * frameBytes, (index + 1) * frameBytes)
+    )
+  );
+  return {
+    data,
+    info: { ...decoded.info, height: pageHeight * keep.length, pages: keep.length },
+  };
+}
+
+// Only formats that can hold an animation are read as one. The pages of a TIFF or HEIC
+// are separate images, often of different sizes, and the first page stands alone.
+export function canAnimate(buffer: Buffer) {
+  const format = sniffFormat(buffer);
+  return format !== null && encoders[format].supportsAnimation;
+}
+
+export async function prepareAnimation(
+  buffer: Buffer,
+  format: EncodableFormat,
+  options: AnimationOptions
+): Promise<AnimationSource> {
+  const still = { input: buffer, animated: false, sourceFrames: 1 };
+  if (!canAnimate(buffer)) return still;
+  // Frames that can't be read together still leave the first one to convert.
+  const metadata = await sharp(buffer, {
+    animated: true,
+    limitInputPixels: uploadLimits.maxInputPixels,
+  })
+    .metadata()
+    .catch(() => null);
+  const pages = metadata?.pages ?? 1;
+  if (!metadata || pages <= 1) return still;
+  if (!options.keep) return { ...still, sourceFrames: pages };
+  if (!encoders[format].supportsAnimation) {
+    return {
+      ...still,
+      sourceFrames: pages,
+      warning: `${format.toUpperCase()} output cannot animate; only the first of ${pages} frames was kept.`,
+    };
+  }
+
+  const delays = Array.from(
+    { length: pages },
+    (_, index) => metadata.delay?.[index] || DEFAULT_DELAY_MS
+  );
+  const plan = planFrames(delays, options);
+  if (plan.keep.length === pages) {
+    return {
+      ...still,
+      animated: true,
+      sourceFrames: pages,
+      delay: delays,
+      loop: metadata.loop,
+    };
+  }
+
+  const decoded = await decodeImage(buffer, true).catch(() => null);
+  if (!decoded) return { ...still, sourceFrames: pages };
+  return {
+    input: selectFrames(decoded, plan.keep),
+    animated: true,
+    sourceFrames: pages,
+    delay: plan.delay,
+    loop: metadata.loop,
+  };
+}
@@ -0,0 +1,32 @@
+import archiver from "archiver";
+import { Readable } from "node:stream";
+
+export type ZipStream = {
+  body: ReadableStream<Uint8Array>;
+  append: (name: string, data: Buffer | string) => void;
+  finalize: () => Promise<void>;
+  abort: (error: unknown) => void;
+};
+
+export function createZipStream(signal?: AbortSignal): ZipStream {
+  const archive = archiver("zip", { zlib: { level: 9 } });
+  // Node's web stream type and the DOM one don't overlap, though they're the same at runtime.
+  const body = Readable.toWeb(archive) as unknown as ReadableStream<Uint8Array>;
+
+  const abort = (error: unknown) => {
+    if (archive.destroyed) return;
+    archive.abort();
+    archive.destroy(error instanceof Error ? error : new Error(String(error)));
+  };
+  signal?.addEventListener("abort", () => abort(signal.reason), { once: true });
+
+  return {
+    body,
+    append: (name, data) => {
+      if (archive.destroyed) throw new Error("Archive was aborted.");
+      archive.append(data, { name });
+    },
+    finalize: () => archive.finalize(),
+    abort,
+  };
+}
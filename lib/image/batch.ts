@@ -0,0 +1,98 @@
+import { processImage } from "./encode";
+import { createNamer, type OrderedNames } from "./naming";
+import { processResponsiveSet, variantReport } from "./responsive";
+import type { ConvertOptions, FileReport, OutputFile } from "./types";
+
+export type BatchResult = {
+  report: FileReport;
+  outputs: OutputFile[];
+};
+
+// Where a file sits in its batch, and the output names the batch shares.
+export type BatchContext = {
+  index: number;
+  names: OrderedNames;
+};
+
+async function runFile(
+  buffer: Buffer,
+  file: File,
+  options: ConvertOptions,
+  context: BatchContext
+): Promise<BatchResult> {
+  const base = { inputName: file.name, inputSize: file.size };
+  const namer = createNamer(
+    file.name,
+    options.filename,
+    context.index,
+    context.names.claimFor(context.index)
+  );
+
+  if (options.responsive) {
+    const set = await processResponsiveSet(
+      buffer,
+      file.name,
+      { ...options, responsive: options.responsive },
+      namer
+    );
+    return {
+      outputs: [...set.variants, set.html, set.manifest],
+      report: {
+        ...base,
+        name: set.html.name,
+        outputSize: set.variants.reduce((sum, variant) => sum + variant.buffer.length, 0),
+        // With a target, each variant reports the quality it settled on instead.
+        quality: options.targetSizeKB || options.targetSsim ? undefined : options.quality,
+        targetMet:
+          options.targetSizeKB > 0
+            ? set.variants.every((variant) => variant.targetMet)
+            : undefined,
+        variants: set.variants.map(variantReport),
+        placeholder: set.placeholder,
+        warnings: set.warnings.length ? set.warnings : undefined,
+      },
+    };
+  }
+
+  const output = await processImage(buffer, file.name, options, namer);
+  return {
+    outputs: [output],
+    report: {
+      ...base,
+      name: output.name,
+      outputSize: output.buffer.length,
+      format: output.format,
+      quality: output.quality,
+      ssim: output.ssim,
+      targetMet: output.targetMet,
+      frames: output.frames,
+      sourceFrames: output.sourceFrames,
+      selection: output.selection,
+      placeholder: output.placeholder,
+      warnings: output.warnings?.length ? output.warnings : undefined,
+    },
+  };
+}
+
+export async function processFile(
+  buffer: Buffer,
+  file: File,
+  options: ConvertOptions,
+  context: BatchContext
+): Promise<BatchResult> {
+  try {
+    return await runFile(buffer, file, options, context);
+  } catch (error) {
+    console.error(`processing ${file.name} failed`, error);
+    return {
+      outputs: [],
+      report: {
+        inputName: file.name,
+        inputSize: file.size,
+        error: error instanceof Error ? error.message : "Failed to process image.",
+      },
+    };
+  } finally {
+    context.names.finish(context.index);
+  }
+}
@@ -0,0 +1,151 @@
+import sharp from "sharp";
+import { getCodecSupport } from "./codecs";
+import type { DetectedInput } from "./detect";
+import { encoders } from "./formats";
+import { uploadLimits } from "./limits";
+import type {
+  ConvertOptions,
+  EncodableFormat,
+  EncodedImage,
+  FormatCandidate,
+  FormatSelection,
+} from "./types";
+
+export type CandidatePlan = {
+  formats: EncodableFormat[];
+  skipped: string[];
+};
+
+export type EncodedCandidate = {
+  format: EncodableFormat;
+  encoded: EncodedImage;
+};
+
+const photoFormats: EncodableFormat[] = ["avif", "webp", "jpeg"];
+const animatedFormats: EncodableFormat[] = ["webp", "gif"];
+
+// Colours are counted on a small nearest-neighbour thumbnail so resampling can't
+// invent new ones. Flat artwork stays well under this; photos run into the thousands.
+const GRAPHIC_SAMPLE_SIDE = 128;
+const GRAPHIC_MAX_COLOURS = 1024;
+// Scores this close are indistinguishable, so the smaller file takes the tie.
+const SSIM_TIE = 0.002;
+
+export async function isGraphic(buffer: Buffer) {
+  const { data, info } = await sharp(buffer, {
+    limitInputPixels: uploadLimits.maxInputPixels,
+  })
+    .resize(GRAPHIC_SAMPLE_SIDE, GRAPHIC_SAMPLE_SIDE, {
+      fit: "inside",
+      kernel: "nearest",
+    })
+    .toColourspace("srgb")
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  const colours = new Set<number>();
+  for (let p = 0; p < data.length; p += info.channels) {
+    colours.add((data[p] << 16) | (data[p + 1] << 8) | data[p + 2]);
+    if (colours.size > GRAPHIC_MAX_COLOURS) return false;
+  }
+  return true;
+}
+
+// An alpha channel that is fully opaque everywhere doesn't need an alpha-capable format.
+export async function hasTransparency(buffer: Buffer, detected: DetectedInput) {
+  if (!detected.hasAlpha) return false;
+  const { isOpaque } = await sharp(buffer, {
+    limitInputPixels: uploadLimits.maxInputPixels,
+  }).stats();
+  return !isOpaque;
+}
+
+export async function planCandidates(
+  buffer: Buffer,
+  detected: DetectedInput,
+  options: ConvertOptions
+): Promise<CandidatePlan> {
+  const animated = detected.frames > 1 && options.animation.keep;
+  const transparent = await hasTransparency(buffer, detected);
+  const { output } = await getCodecSupport();
+
+  let formats = animated ? animatedFormats : [...photoFormats];
+  if (!animated && (await isGraphic(buffer))) formats.push("png");
+
+  const skipped: string[] = [];
+  if (transparent) {
+    const opaque = formats.filter((format) => !encoders[format].supportsAlpha);
+    formats = formats.filter((format) => encoders[format].supportsAlpha);
+    skipped.push(...opaque.map((format) => `${encoders[format].label} has no alpha`));
+  }
+  const unavailable = formats.filter((format) => !output.includes(format));
+  formats = formats.filter((format) => output.includes(format));
+  skipped.push(
+    ...unavailable.map((format) => `${encoders[format].label} is unavailable`)
+  );
+
+  return { formats, skipped };
+}
+
+function toCandidate({ format, encoded }: EncodedCandidate): FormatCandidate {
+  return {
+    format,
+    size: encoded.buffer.length,
+    quality: encoded.quality,
+    ssim: encoded.ssim,
+    targetMet: encoded.targetMet,
+  };
+}
+
+function bySize(a: EncodedCandidate, b: EncodedCandidate) {
+  return a.encoded.buffer.length - b.encoded.buffer.length;
+}
+
+// Under a size target every fitting candidate is about the same size, so the one that
+// looks best wins. Otherwise each candidate already meets the quality setting and the
+// smallest wins.
+function rank(candidates: EncodedCandidate[], options: ConvertOptions) {
+  const smallest = [...candidates].sort(bySize);
+  if (options.targetSizeKB > 0) {
+    const fitting = smallest.filter((candidate) => candidate.encoded.targetMet);
+    if (!fitting.length) {
+      return {
+        winner: smallest[0],
+        why: `nothing fit in ${options.targetSizeKB} KB, so it was the smallest result`,
+      };
+    }
+    const top = Math.max(...fitting.map((candidate) => candidate.encoded.ssim ?? 0));
+    const winner = fitting.find(
+      (candidate) => (candidate.encoded.ssim ?? 0) >= top - SSIM_TIE
+    ) as EncodedCandidate;
+    return {
+      winner,
+      why:
+        fitting.length === 1
+          ? `it was the only format to fit in ${options.targetSizeKB} KB`
+          : `it was the smallest of the best-looking results within ${options.targetSizeKB} KB`,
+    };
+  }
+  return {
+    winner: smallest[0],
+    why:
+      options.targetSsim > 0
+        ? `it was the smallest to reach SSIM ${options.targetSsim}`
+        : `it was the smallest at quality ${options.quality}`,
+  };
+}
+
+export function pickCandidate(
+  candidates: EncodedCandidate[],
+  plan: CandidatePlan,
+  options: ConvertOptions
+): EncodedCandidate & { selection: FormatSelection } {
+  const { winner, why } = rank(candidates, options);
+  const skipped = plan.skipped.length ? ` Skipped: ${plan.skipped.join(", ")}.` : "";
+  return {
+    ...winner,
+    selection: {
+      reason: `${encoders[winner.format].label} won because ${why}.${skipped}`,
+      candidates: candidates.map(toCandidate),
+    },
+  };
+}
@@ -0,0 +1,92 @@
+import sharp from "sharp";
+import { encoders, normalizeFormat } from "./formats";
+import type { FieldErrors } from "./schema";
+import type { ConvertOptions, EncodableFormat } from "./types";
+
+export type CodecSupport = {
+  input: EncodableFormat[];
+  output: EncodableFormat[];
+  // Outputs that can write more than 8 bits per channel.
+  highBitDepth: EncodableFormat[];
+};
+
+const probeOptions = { lossless: false, progressive: false };
+
+function probePixel() {
+  return sharp({
+    create: { width: 1, height: 1, channels: 3, background: "#000000" },
+  });
+}
+
+// Encoding a single pixel proves the encoder exists; reading it back proves the decoder.
+// sharp's prebuilt binaries ship without HEVC and JPEG XL, so these vary by install.
+async function probe(format: EncodableFormat) {
+  try {
+    const encoded = await encoders[format]
+      .encode(probePixel(), 80, probeOptions)
+      .toBuffer();
+    try {
+      await sharp(encoded).metadata();
+      await sharp(encoded).raw().toBuffer();
+      return { input: true, output: true };
+    } catch {
+      return { input: false, output: true };
+    }
+  } catch {
+    return { input: false, output: false };
+  }
+}
+
+// sharp's prebuilt binaries write 8-bit AVIF only and reject higher depths outright.
+async function probeHighBitDepth(format: EncodableFormat) {
+  if (!encoders[format].highBits) return false;
+  try {
+    await encoders[format]
+      .encode(probePixel(), 80, { ...probeOptions, highBitDepth: true })
+      .toBuffer();
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function detectCodecs(): Promise<CodecSupport> {
+  const formats = Object.keys(encoders) as EncodableFormat[];
+  const results = await Promise.all(formats.map(probe));
+  const highBitDepth = await Promise.all(formats.map(probeHighBitDepth));
+  return {
+    input: formats.filter((_, index) => results[index].input),
+    output: formats.filter((_, index) => results[index].output),
+    highBitDepth: formats.filter((_, index) => highBitDepth[index]),
+  };
+}
+
+let support: Promise<CodecSupport> | null = null;
+
+export function getCodecSupport() {
+  support ??= detectCodecs();
+  return support;
+}
+
+export async function logCodecSupport() {
+  const { input, output, highBitDepth } = await getCodecSupport();
+  console.info(
+    `image codecs: input ${input.join(", ")}; output ${output.join(", ")}; high bit depth ${highBitDepth.join(", ") || "none"} (libvips ${sharp.versions.vips})`
+  );
+}
+
+function unavailableMessage(format: EncodableFormat) {
+  return `${encoders[format].label} output is not available on this server.`;
+}
+
+export async function checkOutputFormats(options: ConvertOptions): Promise<FieldErrors> {
+  const { output } = await getCodecSupport();
+  const errors: FieldErrors = {};
+  if (options.format !== "auto" && options.format !== "best") {
+    const format = normalizeFormat(options.format);
+    if (!output.includes(format)) errors.format = unavailableMessage(format);
+  }
+  const missing = options.responsive?.formats.find((format) => !output.includes(format));
+  if (missing) errors.responsiveFormats = unavailableMessage(missing);
+  return errors;
+}
@@ -0,0 +1,139 @@
+import sharp from "sharp";
+import { getCodecSupport } from "./codecs";
+import type { DetectedInput } from "./detect";
+import { encoders } from "./formats";
+import { uploadLimits } from "./limits";
+import type {
+  BitDepth,
+  ColorPlan,
+  ColorSpace,
+  EncodableFormat,
+  MetadataPlan,
+} from "./types";
+
+// Gamut is judged on a thumbnail; a few stray pixels aren't worth a warning.
+const GAMUT_SAMPLE_SIDE = 256;
+const GAMUT_CLIPPED_SHARE = 0.01;
+const GAMUT_TOLERANCE = 0.01;
+const MAX_16 = 65535;
+
+// sRGB and Display P3 share a white point and transfer curve, so one matrix on linear
+// values converts between them.
+const srgbToP3 = [
+  [0.8225, 0.1774, 0],
+  [0.0332, 0.9669, 0],
+  [0.0171, 0.0724, 0.9108],
+];
+
+const p3ToSrgb = [
+  [1.2249, -0.2247, 0],
+  [-0.042, 1.0419, 0],
+  [-0.0197, -0.0786, 1.0979],
+];
+
+// Channels are fractions of full scale.
+function toLinear(c: number) {
+  return c <= 0.04045 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4;
+}
+
+function fromLinear(c: number) {
+  const v = c <= 0.0031308 ? c * 12.92 : 1.055 * c ** (1 / 2.4) - 0.055;
+  return Math.round(Math.min(1, Math.max(0, v)) * 255);
+}
+
+// Colours such as the flatten background are given in sRGB, but a wide-gamut pipeline
+// reads them as P3 values.
+export function toDisplayP3(hex: string) {
+  let digits = hex.slice(1);
+  if (digits.length <= 4) digits = [...digits].map((digit) => digit + digit).join("");
+  const [r, g, b, alpha = 255] = (digits.match(/../g) ?? []).map((pair) =>
+    parseInt(pair, 16)
+  );
+  const linear = [r, g, b].map((channel) => toLinear(channel / 255));
+  const [pr, pg, pb] = srgbToP3.map((row) =>
+    fromLinear(row.reduce((sum, weight, index) => sum + weight * linear[index], 0))
+  );
+  return { r: pr, g: pg, b: pb, alpha: alpha / 255 };
+}
+
+// sharp converts 8-bit inputs with a profile to sRGB by itself but leaves 16-bit ones
+// untouched, so those, and any output that embeds a profile, get an explicit conversion.
+export function planColor(
+  detected: DetectedInput,
+  colorSpace: ColorSpace,
+  metadata?: MetadataPlan
+): ColorPlan | undefined {
+  if (colorSpace === "keep") {
+    return detected.profile === undefined
+      ? undefined
+      : { profile: "keep", attach: true, wideGamut: false };
+  }
+  const attach = colorSpace === "p3" || Boolean(metadata?.icc || metadata?.keepAll);
+  if (!attach && (detected.profile === undefined || !detected.highBitDepth)) {
+    return undefined;
+  }
+  // sharp works on 8-bit inputs in sRGB, which would clip wide-gamut colours on their
+  // way to P3, while 16-bit pipelines work in P3. Untagged sources are sRGB already.
+  const wideGamut = colorSpace === "p3" && detected.profile !== undefined;
+  return { profile: colorSpace, attach, wideGamut };
+}
+
+export async function resolveBitDepth(
+  format: EncodableFormat,
+  detected: DetectedInput,
+  bitDepth: BitDepth
+): Promise<{ highBitDepth: boolean; warning?: string }> {
+  const wanted = bitDepth === "auto" ? detected.highBitDepth : bitDepth === "16";
+  if (!wanted) return { highBitDepth: false };
+
+  const { highBitDepth } = await getCodecSupport();
+  if (highBitDepth.includes(format)) return { highBitDepth: true };
+  // "auto" quietly settles for 8 bits; only an explicit request is worth a warning.
+  return {
+    highBitDepth: false,
+    warning:
+      bitDepth === "16"
+        ? `${encoders[format].label} output is limited to 8 bits per channel here.`
+        : undefined,
+  };
+}
+
+// Out-of-gamut colours are found by sampling in P3, which holds everything an sRGB export
+// could lose, and seeing which pixels fall outside sRGB once converted to it. Colours
+// beyond P3 itself can't be measured this way, so P3 exports aren't checked.
+export async function checkGamut(
+  buffer: Buffer,
+  inputName: string,
+  detected: DetectedInput,
+  colorSpace: ColorSpace
+) {
+  if (colorSpace !== "srgb" || detected.profile === undefined) return undefined;
+  const { data, info } = await sharp(buffer, {
+    limitInputPixels: uploadLimits.maxInputPixels,
+  })
+    .resize(GAMUT_SAMPLE_SIDE, GAMUT_SAMPLE_SIDE, { fit: "inside" })
+    .removeAlpha()
+    .pipelineColourspace("rgb16")
+    .withIccProfile("p3")
+    .toColourspace("rgb16")
+    .raw({ depth: "ushort" })
+    .toBuffer({ resolveWithObject: true });
+  const pixels = new Uint16Array(data.buffer, data.byteOffset, data.length / 2);
+
+  let clipped = 0;
+  for (let p = 0; p < pixels.length; p += info.channels) {
+    const linear = [0, 1, 2].map((c) => toLinear(pixels[p + c] / MAX_16));
+    const outside = p3ToSrgb.some((row) => {
+      const value = row.reduce((sum, weight, index) => sum + weight * linear[index], 0);
+      return value < -GAMUT_TOLERANCE || value > 1 + GAMUT_TOLERANCE;
+    });
+    if (outside) clipped += 1;
+  }
+  const share = clipped / (pixels.length / info.channels);
+  if (share < GAMUT_CLIPPED_SHARE) return undefined;
+
+  const name = detected.profile || "its embedded profile";
+  return `${inputName} uses colours from ${name} that sRGB can't show, so about ${Math.round(
+    share * 100
+  )}% of it will be clipped; export as Display P3 or keep the source profile to preserve them.`;
+}
@@ -0,0 +1,126 @@
+import sharp from "sharp";
+import { buildPipeline, type ImageInput } from "./pipeline";
+import type { ConvertOptions, CropRect, CropStrategy } from "./types";
+
+// Attention and entropy only need a rough look, so they run on a smaller copy.
+const STRATEGY_SAMPLE_SIDE = 1024;
+
+export async function sourceSize(input: ImageInput) {
+  if (!Buffer.isBuffer(input)) {
+    return {
+      width: input.info.width,
+      height: input.info.pageHeight ?? input.info.height,
+    };
+  }
+  const metadata = await sharp(input, { limitInputPixels: false }).metadata();
+  const { width, height } = metadata.autoOrient;
+  return {
+    width,
+    height: (metadata.pages ?? 1) > 1 ? (metadata.pageHeight ?? height) : height,
+  };
+}
+
+function clamp(value: number, min: number, max: number) {
+  return Math.min(Math.max(value, min), max);
+}
+
+function intersect(rect: CropRect, width: number, height: number): CropRect | null {
+  const left = clamp(rect.left, 0, width);
+  const top = clamp(rect.top, 0, height);
+  const right = clamp(rect.left + rect.width, 0, width);
+  const bottom = clamp(rect.top + rect.height, 0, height);
+  if (right <= left || bottom <= top) return null;
+  return { left, top, width: right - left, height: bottom - top };
+}
+
+// The largest box of the given ratio that fits inside the base region.
+function fitRatio(base: CropRect, aspect: number) {
+  if (base.width / base.height > aspect) {
+    return { width: Math.max(1, Math.round(base.height * aspect)), height: base.height };
+  }
+  return { width: base.width, height: Math.max(1, Math.round(base.width / aspect)) };
+}
+
+// sharp can't run a crop strategy across frames, so animations are judged by the first.
+function firstFrame(input: ImageInput): ImageInput {
+  if (Buffer.isBuffer(input) || !input.info.pageHeight) return input;
+  const { width, channels, pageHeight } = input.info;
+  return {
+    data: input.data.subarray(0, width * pageHeight * channels),
+    info: { ...input.info, height: pageHeight, pageHeight: undefined, pages: 1 },
+  };
+}
+
+// sharp reports where its smart crop landed as negative offsets into the resized image.
+async function strategyOffset(
+  input: ImageInput,
+  base: CropRect,
+  box: { width: number; height: number },
+  strategy: Exclude<CropStrategy, "center">
+) {
+  const scale = Math.min(1, STRATEGY_SAMPLE_SIDE / Math.max(base.width, base.height));
+  const { info } = await buildPipeline(firstFrame(input), {
+    region: base,
+  })
+    .resize(
+      Math.max(1, Math.round(box.width * scale)),
+      Math.max(1, Math.round(box.height * scale)),
+      { fit: "cover", position: sharp.strategy[strategy] }
+    )
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  return {
+    left: -(info.cropOffsetLeft ?? 0) / scale,
+    top: -(info.cropOffsetTop ?? 0) / scale,
+  };
+}
+
+// Turns the crop options into one rectangle of the upright source. The rectangle is cut
+// first, then narrowed to the aspect ratio around the focal point or the chosen strategy.
+// "cover" with both dimensions implies their ratio, so it gets the same treatment.
+export async function resolveRegion(
+  input: ImageInput,
+  options: Pick<ConvertOptions, "crop" | "fit" | "width" | "height">
+): Promise<CropRect | undefined> {
+  const { crop } = options;
+  const coverAspect =
+    options.fit === "cover" && options.width && options.height
+      ? options.width / options.height
+      : undefined;
+  const aspect = crop.aspect ?? coverAspect;
+  if (!crop.rect && !aspect) return undefined;
+
+  const size = await sourceSize(input);
+  const full = { left: 0, top: 0, width: size.width, height: size.height };
+  const base = crop.rect ? intersect(crop.rect, size.width, size.height) : full;
+  if (!base) {
+    throw new Error(
+      `The crop rectangle lies outside the ${size.width}×${size.height} image.`
+    );
+  }
+  if (!aspect) return base;
+
+  const box = fitRatio(base, aspect);
+  let offset = {
+    left: (base.width - box.width) / 2,
+    top: (base.height - box.height) / 2,
+  };
+  if (crop.focus) {
+    offset = {
+      left: crop.focus.x * size.width - base.left - box.width / 2,
+      top: crop.focus.y * size.height - base.top - box.height / 2,
+    };
+  } else if (
+    crop.strategy !== "center" &&
+    (box.width < base.width || box.height < base.height)
+  ) {
+    offset = await strategyOffset(input, base, box, crop.strategy);
+  }
+
+  return {
+    left: base.left + Math.round(clamp(offset.left, 0, base.width - box.width)),
+    top: base.top + Math.round(clamp(offset.top, 0, base.height - box.height)),
+    width: box.width,
+    height: box.height,
+  };
+}
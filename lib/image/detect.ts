@@ -0,0 +1,70 @@
+import sharp, { type Metadata } from "sharp";
+import { canAnimate } from "./animation";
+import { getCodecSupport } from "./codecs";
+import { encoders, formatFromExtension, getExtension } from "./formats";
+import { iccDescription } from "./metadata";
+import { sniffFormat } from "./sniff";
+import type { EncodableFormat } from "./types";
+
+export type DetectedInput = {
+  format: EncodableFormat;
+  hasAlpha: boolean;
+  frames: number;
+  // The embedded ICC profile's name, or "" when it has none we can read.
+  profile?: string;
+  highBitDepth: boolean;
+  warnings: string[];
+};
+
+// sharp reports AVIF and HEIC both as "heif"; the compression tells them apart.
+function decodedFormat(metadata: Metadata): EncodableFormat | null {
+  if (metadata.format === "heif") return metadata.compression === "av1" ? "avif" : "heic";
+  return formatFromExtension(metadata.format);
+}
+
+// The signature decides the format; the decoder has to agree before the file is trusted.
+export async function detectInput(
+  buffer: Buffer,
+  inputName: string
+): Promise<DetectedInput> {
+  const format = sniffFormat(buffer);
+  if (!format) {
+    throw new Error(
+      `${inputName} is not a supported image; its contents match no known format.`
+    );
+  }
+
+  const label = encoders[format].label;
+  const { input } = await getCodecSupport();
+  if (!input.includes(format)) {
+    throw new Error(`${label} input is not supported on this server.`);
+  }
+
+  const metadata = await sharp(buffer, { limitInputPixels: false })
+    .metadata()
+    .catch(() => null);
+  const decoded = metadata ? decodedFormat(metadata) : null;
+  if (!metadata || !decoded) {
+    throw new Error(`${inputName} looks like ${label} but could not be decoded.`);
+  }
+  if (decoded !== format) {
+    throw new Error(
+      `${inputName} has a ${label} signature but decodes as ${encoders[decoded].label}.`
+    );
+  }
+
+  const warnings: string[] = [];
+  const named = formatFromExtension(getExtension(inputName));
+  if (named && named !== format) {
+    warnings.push(`${inputName} contains ${label} data and was treated as ${label}.`);
+  }
+
+  return {
+    format,
+    hasAlpha: metadata.hasAlpha ?? false,
+    frames: canAnimate(buffer) ? (metadata.pages ?? 1) : 1,
+    profile: metadata.icc ? (iccDescription(metadata.icc) ?? "") : undefined,
+    highBitDepth: !["uchar", "char"].includes(metadata.depth ?? "uchar"),
+    warnings,
+  };
+}
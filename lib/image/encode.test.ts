@@ -0,0 +1,166 @@
+import { describe, expect, test } from "bun:test";
+import sharp from "sharp";
+import { detectInput } from "./detect";
+import {
+  encodeToSsimTarget,
+  encodeToTargetSize,
+  processImage,
+  resolveFormat,
+} from "./encode";
+import { createNamer, createOrderedNames, DEFAULT_FILENAME } from "./naming";
+import { parseConvertOptions } from "./options";
+import type { EncoderOptions } from "./types";
+
+// A busy pattern keeps the encoders honest: a flat image compresses to almost nothing at any quality.
+async function photo(width = 320, height = 240) {
+  const channels = 3;
+  const data = Buffer.alloc(width * height * channels);
+  for (let i = 0; i < data.length; i += 1) {
+    data[i] = (i * 37 + ((i / (width * channels)) | 0) * 11) % 256;
+  }
+  return sharp(data, { raw: { width, height, channels } }).jpeg().toBuffer();
+}
+
+function graphic() {
+  return sharp({
+    create: { width: 64, height: 64, channels: 4, background: "#ff000080" },
+  })
+    .png()
+    .toBuffer();
+}
+
+function optionsFor(fields: Record<string, string> = {}) {
+  const formData = new FormData();
+  for (const [key, value] of Object.entries(fields)) formData.set(key, value);
+  const parsed = parseConvertOptions(formData);
+  if (!parsed.ok) throw new Error(JSON.stringify(parsed.errors));
+  return parsed.value;
+}
+
+function namerFor(name: string) {
+  return createNamer(name, DEFAULT_FILENAME, 0, createOrderedNames().claimFor(0));
+}
+
+describe("resolveFormat", () => {
+  test("auto keeps the input format", async () => {
+    const detected = await detectInput(await photo(), "photo.jpg");
+    expect(await resolveFormat(detected, optionsFor())).toBe("jpeg");
+  });
+
+  test("an explicit format is normalised", async () => {
+    const detected = await detectInput(await graphic(), "graphic.png");
+    expect(await resolveFormat(detected, optionsFor({ format: "jpg" }))).toBe("jpeg");
+  });
+});
+
+describe("processImage", () => {
+  test("encodes to the requested format and size", async () => {
+    const output = await processImage(
+      await photo(),
+      "photo.jpg",
+      optionsFor({ format: "webp", width: "160" }),
+      namerFor("photo.jpg")
+    );
+    const metadata = await sharp(output.buffer).metadata();
+    expect(output.name).toBe("photo.webp");
+    expect(output.format).toBe("webp");
+    expect(output.mime).toBe("image/webp");
+    expect(metadata.format).toBe("webp");
+    expect(metadata.width).toBe(160);
+    expect(metadata.height).toBe(120);
+  });
+
+  test("lower quality gives smaller output", async () => {
+    const input = await photo();
+    const encode = (quality: string) =>
+      processImage(
+        input,
+        "photo.jpg",
+        optionsFor({ format: "jpeg", quality }),
+        namerFor("photo.jpg")
+      );
+    const [low, high] = await Promise.all([encode("30"), encode("90")]);
+    expect(low.buffer.length).toBeLessThan(high.buffer.length);
+  });
+
+  test("keeps alpha for PNG output", async () => {
+    const output = await processImage(
+      await graphic(),
+      "graphic.png",
+      optionsFor(),
+      namerFor("graphic.png")
+    );
+    const metadata = await sharp(output.buffer).metadata();
+    expect(output.format).toBe("png");
+    expect(metadata.hasAlpha).toBe(true);
+  });
+
+  test("converts the first page of a TIFF whose pages differ in size", async () => {
+    // A pyramid holds the image again at half size on its second page.
+    const tiff = await sharp({
+      create: { width: 128, height: 128, channels: 3, background: "#336699" },
+    })
+      .tiff({ pyramid: true, tile: true, tileWidth: 64, tileHeight: 64 })
+      .toBuffer();
+    expect((await sharp(tiff).metadata()).pages).toBe(2);
+
+    for (const format of ["auto", "jpeg"]) {
+      const output = await processImage(
+        tiff,
+        "pyramid.tiff",
+        optionsFor({ format }),
+        namerFor("pyramid.tiff")
+      );
+      const metadata = await sharp(output.buffer).metadata();
+      expect(metadata.width).toBe(128);
+      expect(output.frames).toBe(1);
+    }
+  });
+});
+
+describe("encodeToTargetSize", () => {
+  const encoderOptions: EncoderOptions = { lossless: false, progressive: false };
+
+  test("lands at or under the target", async () => {
+    const targetBytes = 6 * 1024;
+    const encoded = await encodeToTargetSize(
+      await photo(),
+      "jpeg",
+      targetBytes,
+      75,
+      encoderOptions
+    );
+    expect(encoded.targetMet).toBe(true);
+    expect(encoded.buffer.length).toBeLessThanOrEqual(targetBytes);
+  });
+
+  test("reports a target it can't reach", async () => {
+    const encoded = await encodeToTargetSize(
+      await photo(),
+      "jpeg",
+      10,
+      75,
+      encoderOptions
+    );
+    expect(encoded.targetMet).toBe(false);
+    expect(encoded.buffer.length).toBeGreaterThan(10);
+  });
+});
+
+describe("encodeToSsimTarget", () => {
+  test("encodes once when quality changes nothing", async () => {
+    // A search would settle on its lowest quality, since every attempt scores the same.
+    const input = await graphic();
+    for (const [format, lossless] of [
+      ["gif", false],
+      ["webp", true],
+    ] as const) {
+      const encoded = await encodeToSsimTarget(input, format, 0.5, {
+        lossless,
+        progressive: false,
+      });
+      expect(encoded.quality).toBe(100);
+      expect(encoded.ssim).toBeNumber();
+    }
+  });
+});
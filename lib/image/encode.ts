@@ -0,0 +1,306 @@
+import sharp from "sharp";
+import { prepareAnimation } from "./animation";
+import { type EncodedCandidate, pickCandidate, planCandidates } from "./best";
+import { getCodecSupport } from "./codecs";
+import { checkGamut, planColor, resolveBitDepth } from "./color";
+import { resolveRegion } from "./crop";
+import { type DetectedInput, detectInput } from "./detect";
+import { encoders, normalizeFormat } from "./formats";
+import { planMetadata } from "./metadata";
+import type { OutputNamer } from "./naming";
+import { buildPipeline, type ImageInput } from "./pipeline";
+import { createPlaceholder } from "./placeholder";
+import { readLuma, ssim } from "./ssim";
+import { overlayFor } from "./watermark";
+import type {
+  ConvertOptions,
+  EncodableFormat,
+  EncodedImage,
+  EncoderOptions,
+  FormatSelection,
+  ProcessedImage,
+} from "./types";
+
+export function encodeWithQuality(
+  input: ImageInput,
+  format: EncodableFormat,
+  quality: number,
+  options: EncoderOptions
+) {
+  return encoders[format].encode(buildPipeline(input, options), quality, options);
+}
+
+export async function encodeImage(
+  input: ImageInput,
+  format: EncodableFormat,
+  quality: number,
+  options: EncoderOptions
+): Promise<EncodedImage> {
+  const overlay = await overlayFor(input, options);
+  const { data, info } = await encodeWithQuality(input, format, quality, {
+    ...options,
+    overlay,
+  }).toBuffer({ resolveWithObject: true });
+  return {
+    buffer: data,
+    width: info.width,
+    height: info.pageHeight ?? info.height,
+    frames: info.pages ?? 1,
+    quality,
+  };
+}
+
+// Accept the first result that lands within this fraction under the target.
+const TARGET_TOLERANCE = 0.05;
+// Below this, artifacts cost more than downscaling does, so the search shrinks instead.
+const MIN_TARGET_QUALITY = 20;
+const MAX_DOWNSCALE_STEPS = 6;
+const MIN_DOWNSCALE_SIDE = 16;
+
+// Largest quality whose output fits in `targetBytes`, or the smallest attempt if none do.
+async function searchQuality(
+  input: ImageInput,
+  format: EncodableFormat,
+  targetBytes: number,
+  baseQuality: number,
+  options: EncoderOptions
+) {
+  if (!encoders[format].isTunable(options)) {
+    return encodeImage(input, format, baseQuality, options);
+  }
+
+  let low = MIN_TARGET_QUALITY;
+  let high = 100;
+  let best: EncodedImage | null = null;
+  let smallest: EncodedImage | null = null;
+  while (low <= high) {
+    const quality = Math.floor((low + high) / 2);
+    const encoded = await encodeImage(input, format, quality, options);
+    if (encoded.buffer.length <= targetBytes) {
+      best = encoded;
+      if (encoded.buffer.length >= targetBytes * (1 - TARGET_TOLERANCE)) break;
+      low = quality + 1;
+    } else {
+      if (!smallest || encoded.buffer.length < smallest.buffer.length) {
+        smallest = encoded;
+      }
+      high = quality - 1;
+    }
+  }
+  return (best ?? smallest) as EncodedImage;
+}
+
+// Searches quality first, then stronger chroma subsampling, then smaller dimensions, so
+// the result is never larger than the target unless even the smallest attempt is.
+export async function encodeToTargetSize(
+  input: ImageInput,
+  format: EncodableFormat,
+  targetBytes: number,
+  baseQuality: number,
+  options: EncoderOptions
+): Promise<EncodedImage> {
+  const fits = (encoded: EncodedImage) => encoded.buffer.length <= targetBytes;
+  let current = options;
+  let result = await searchQuality(input, format, targetBytes, baseQuality, current);
+
+  if (!fits(result) && encoders[format].fullChromaByDefault) {
+    current = { ...current, chromaSubsampling: "4:2:0" };
+    result = await searchQuality(input, format, targetBytes, baseQuality, current);
+  }
+
+  for (let step = 0; step < MAX_DOWNSCALE_STEPS && !fits(result); step += 1) {
+    // Bytes scale roughly with area, so shrink each side by the square root.
+    const scale = Math.min(0.9, Math.sqrt(targetBytes / result.buffer.length) * 0.95);
+    const width = Math.floor(result.width * scale);
+    const height = Math.floor(result.height * scale);
+    if (Math.min(width, height) < MIN_DOWNSCALE_SIDE) break;
+    current = { ...current, width, height, fit: current.fit ?? "inside" };
+    result = await searchQuality(input, format, targetBytes, baseQuality, current);
+  }
+
+  return { ...result, targetMet: fits(result) };
+}
+
+// Encoders without alpha drop it onto black unless a background was chosen.
+function matteFor(format: EncodableFormat, options: EncoderOptions) {
+  return encoders[format].supportsAlpha ? "#ffffff" : (options.background ?? "#000000");
+}
+
+// Stills are scaled to the reference first so a downscaled result is judged at the size
+// it stands in for. Animations are only compared when their dimensions already match.
+async function measureSsim(
+  input: ImageInput,
+  format: EncodableFormat,
+  encoded: EncodedImage,
+  options: EncoderOptions
+) {
+  const matte = matteFor(format, options);
+  const overlay = await overlayFor(input, options);
+  const reference = await readLuma(buildPipeline(input, { ...options, overlay }), matte);
+  const decoded = sharp(encoded.buffer, { animated: options.animated });
+  if (!options.animated) {
+    decoded.resize(reference.width, reference.height, { fit: "fill" });
+  }
+  const candidate = await readLuma(decoded, matte);
+  if (candidate.width !== reference.width || candidate.height !== reference.height) {
+    return undefined;
+  }
+  return ssim(reference, candidate);
+}
+
+// Binary search for the lowest quality whose output still scores at least `threshold`
+// against the unencoded pipeline output. Falls back to quality 100 if nothing does, and
+// encodes just once for formats whose quality setting changes nothing.
+export async function encodeToSsimTarget(
+  input: ImageInput,
+  format: EncodableFormat,
+  threshold: number,
+  options: EncoderOptions
+) {
+  const matte = matteFor(format, options);
+  const overlay = await overlayFor(input, options);
+  const reference = await readLuma(buildPipeline(input, { ...options, overlay }), matte);
+  const scored = async (quality: number) => {
+    const encoded = await encodeImage(input, format, quality, options);
+    const decoded = sharp(encoded.buffer, { animated: options.animated });
+    const score = ssim(reference, await readLuma(decoded, matte));
+    return { ...encoded, ssim: score };
+  };
+  if (!encoders[format].isTunable(options)) return scored(100);
+
+  let low = 10;
+  let high = 100;
+  let best: EncodedImage | null = null;
+  while (low <= high) {
+    const quality = Math.floor((low + high) / 2);
+    const encoded = await scored(quality);
+    if (encoded.ssim >= threshold) {
+      best = encoded;
+      high = quality - 1;
+    } else {
+      low = quality + 1;
+    }
+  }
+
+  return best ?? (await scored(100));
+}
+
+// "auto" keeps the detected input format when this server can write it. Otherwise it
+// falls back to PNG for images with alpha and JPEG for the rest. "best" only compares
+// formats in processImage; everywhere else it behaves like "auto".
+export async function resolveFormat(input: DetectedInput, options: ConvertOptions) {
+  if (options.format !== "auto" && options.format !== "best") {
+    return normalizeFormat(options.format);
+  }
+  const { output } = await getCodecSupport();
+  if (output.includes(input.format)) return input.format;
+  return input.hasAlpha ? "png" : "jpeg";
+}
+
+export function encoderOptionsFor(
+  format: EncodableFormat,
+  options: ConvertOptions
+): EncoderOptions {
+  const shouldFlatten = options.flatten && !encoders[format].supportsAlpha;
+  return {
+    width: options.width,
+    height: options.height,
+    fit: options.fit,
+    background: shouldFlatten ? options.background : undefined,
+    lossless: options.lossless,
+    progressive: options.progressive,
+    watermark: options.watermark,
+  };
+}
+
+// Honours whichever of quality, targetSizeKB and targetSsim the options ask for.
+export function encodeForOptions(
+  input: ImageInput,
+  format: EncodableFormat,
+  options: ConvertOptions,
+  encoderOptions: EncoderOptions
+) {
+  if (options.targetSizeKB > 0) {
+    return encodeToTargetSize(
+      input,
+      format,
+      options.targetSizeKB * 1024,
+      options.quality,
+      encoderOptions
+    );
+  }
+  if (options.targetSsim > 0) {
+    return encodeToSsimTarget(input, format, options.targetSsim, encoderOptions);
+  }
+  return encodeImage(input, format, options.quality, encoderOptions);
+}
+
+export async function processImage(
+  buffer: Buffer,
+  inputName: string,
+  options: ConvertOptions,
+  namer: OutputNamer
+): Promise<ProcessedImage> {
+  const detected = await detectInput(buffer, inputName);
+  const plan =
+    options.format === "best" ? await planCandidates(buffer, detected, options) : null;
+  const formats = plan ? plan.formats : [await resolveFormat(detected, options)];
+  if (!formats.length) {
+    throw new Error(`No output format can encode ${inputName}.`);
+  }
+
+  // Best-format candidates either all animate or none do, so one source serves them all.
+  const source = await prepareAnimation(buffer, formats[0], options.animation);
+  const region = await resolveRegion(source.input, options);
+  const metadata = await planMetadata(buffer, options.metadata);
+  const color = planColor(detected, options.colorSpace, metadata);
+  const depthWarnings = new Map<EncodableFormat, string>();
+  const candidates: EncodedCandidate[] = [];
+  for (const format of formats) {
+    const depth = await resolveBitDepth(format, detected, options.bitDepth);
+    if (depth.warning) depthWarnings.set(format, depth.warning);
+    const encoderOptions: EncoderOptions = {
+      ...encoderOptionsFor(format, options),
+      region,
+      metadata,
+      color,
+      highBitDepth: depth.highBitDepth,
+      animated: source.animated,
+      delay: source.delay,
+      loop: source.loop,
+    };
+    const encoded = await encodeForOptions(source.input, format, options, encoderOptions);
+    if (plan && options.targetSizeKB > 0) {
+      encoded.ssim = await measureSsim(source.input, format, encoded, encoderOptions);
+    }
+    candidates.push({ format, encoded });
+  }
+
+  const chosen: EncodedCandidate & { selection?: FormatSelection } = plan
+    ? pickCandidate(candidates, plan, options)
+    : candidates[0];
+  const { format, encoded } = chosen;
+  const warnings = [
+    ...detected.warnings,
+    source.warning,
+    await checkGamut(buffer, inputName, detected, options.colorSpace),
+    depthWarnings.get(format),
+  ].filter((warning): warning is string => Boolean(warning));
+  const placeholder = options.placeholders
+    ? await createPlaceholder(
+        source.input,
+        { ...encoderOptionsFor(format, options), region },
+        encoded
+      )
+    : undefined;
+  return {
+    ...encoded,
+    name: await namer.output(format, encoded),
+    format,
+    mime: encoders[format].mime,
+    sourceFrames: source.sourceFrames,
+    selection: chosen.selection,
+    placeholder,
+    warnings,
+  };
+}
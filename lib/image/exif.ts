@@ -0,0 +1,241 @@
+// A small EXIF reader: enough to list tags by IFD and hand the ones we keep back to
+// sharp's withExif(), which takes libvips-style string values.
+
+// libvips numbers the IFDs this way: 0 is the main image, 1 the thumbnail, 2 the Exif
+// sub-IFD, 3 GPS and 4 interoperability.
+export type IfdName = "IFD0" | "IFD1" | "IFD2" | "IFD3" | "IFD4";
+
+export type ExifTag = {
+  ifd: IfdName;
+  name: string;
+  value: string;
+};
+
+const EXIF_IFD_POINTER = 0x8769;
+const GPS_IFD_POINTER = 0x8825;
+const INTEROP_IFD_POINTER = 0xa005;
+
+// Byte size of one component of each TIFF field type.
+const typeSizes: Record<number, number> = {
+  1: 1,
+  2: 1,
+  3: 2,
+  4: 4,
+  5: 8,
+  6: 1,
+  7: 1,
+  8: 2,
+  9: 4,
+  10: 8,
+  11: 4,
+  12: 8,
+};
+
+// Names as libexif knows them, since withExif() looks tags up by name.
+const tagNames: Record<IfdName, Record<number, string>> = {
+  IFD0: {
+    0x010e: "ImageDescription",
+    0x010f: "Make",
+    0x0110: "Model",
+    0x0112: "Orientation",
+    0x011a: "XResolution",
+    0x011b: "YResolution",
+    0x0128: "ResolutionUnit",
+    0x0131: "Software",
+    0x0132: "DateTime",
+    0x013b: "Artist",
+    0x013e: "WhitePoint",
+    0x013f: "PrimaryChromaticities",
+    0x0213: "YCbCrPositioning",
+    0x8298: "Copyright",
+  },
+  IFD1: {},
+  IFD2: {
+    0x829a: "ExposureTime",
+    0x829d: "FNumber",
+    0x8822: "ExposureProgram",
+    0x8827: "ISOSpeedRatings",
+    0x9000: "ExifVersion",
+    0x9003: "DateTimeOriginal",
+    0x9004: "DateTimeDigitized",
+    0x9010: "OffsetTime",
+    0x9011: "OffsetTimeOriginal",
+    0x9012: "OffsetTimeDigitized",
+    0x9201: "ShutterSpeedValue",
+    0x9202: "ApertureValue",
+    0x9203: "BrightnessValue",
+    0x9204: "ExposureBiasValue",
+    0x9205: "MaxApertureValue",
+    0x9206: "SubjectDistance",
+    0x9207: "MeteringMode",
+    0x9208: "LightSource",
+    0x9209: "Flash",
+    0x920a: "FocalLength",
+    0x9290: "SubSecTime",
+    0x9291: "SubSecTimeOriginal",
+    0x9292: "SubSecTimeDigitized",
+    0xa000: "FlashPixVersion",
+    0xa001: "ColorSpace",
+    0xa002: "PixelXDimension",
+    0xa003: "PixelYDimension",
+    0xa217: "SensingMethod",
+    0xa401: "CustomRendered",
+    0xa402: "ExposureMode",
+    0xa403: "WhiteBalance",
+    0xa404: "DigitalZoomRatio",
+    0xa405: "FocalLengthIn35mmFilm",
+    0xa406: "SceneCaptureType",
+    0xa407: "GainControl",
+    0xa408: "Contrast",
+    0xa409: "Saturation",
+    0xa40a: "Sharpness",
+    0xa40c: "SubjectDistanceRange",
+    0xa420: "ImageUniqueID",
+    0xa430: "CameraOwnerName",
+    0xa431: "BodySerialNumber",
+    0xa432: "LensSpecification",
+    0xa433: "LensMake",
+    0xa434: "LensModel",
+    0xa435: "LensSerialNumber",
+  },
+  IFD3: {
+    0x0000: "GPSVersionID",
+    0x0001: "GPSLatitudeRef",
+    0x0002: "GPSLatitude",
+    0x0003: "GPSLongitudeRef",
+    0x0004: "GPSLongitude",
+    0x0005: "GPSAltitudeRef",
+    0x0006: "GPSAltitude",
+    0x0007: "GPSTimeStamp",
+    0x0010: "GPSImgDirectionRef",
+    0x0011: "GPSImgDirection",
+    0x0012: "GPSMapDatum",
+    0x001d: "GPSDateStamp",
+  },
+  IFD4: {
+    0x0001: "InteroperabilityIndex",
+  },
+};
+
+function tiffStart(buffer: Buffer) {
+  return buffer.subarray(0, 6).toString("latin1") === "Exif\0\0" ? 6 : 0;
+}
+
+function formatComponent(view: Buffer, type: number, offset: number, little: boolean) {
+  const u16 = (at: number) => (little ? view.readUInt16LE(at) : view.readUInt16BE(at));
+  const u32 = (at: number) => (little ? view.readUInt32LE(at) : view.readUInt32BE(at));
+  const i32 = (at: number) => (little ? view.readInt32LE(at) : view.readInt32BE(at));
+  switch (type) {
+    case 3:
+      return String(u16(offset));
+    case 4:
+      return String(u32(offset));
+    case 5:
+      return `${u32(offset)}/${u32(offset + 4)}`;
+    case 8:
+      return String(little ? view.readInt16LE(offset) : view.readInt16BE(offset));
+    case 9:
+      return String(i32(offset));
+    case 10:
+      return `${i32(offset)}/${i32(offset + 4)}`;
+    case 11:
+      return String(little ? view.readFloatLE(offset) : view.readFloatBE(offset));
+    case 12:
+      return String(little ? view.readDoubleLE(offset) : view.readDoubleBE(offset));
+    default:
+      return String(view[offset]);
+  }
+}
+
+function formatValue(
+  view: Buffer,
+  type: number,
+  count: number,
+  offset: number,
+  little: boolean
+) {
+  const bytes = view.subarray(offset, offset + count * (typeSizes[type] ?? 1));
+  if (type === 2) return bytes.toString("latin1").replace(/\0+$/, "");
+  // Undefined values are only kept when they are plain text, such as ExifVersion.
+  if (type === 7) {
+    const text = bytes.toString("latin1").replace(/\0+$/, "");
+    return /^[\x20-\x7e]*$/.test(text) ? text : null;
+  }
+  const size = typeSizes[type] ?? 1;
+  return Array.from({ length: count }, (_, index) =>
+    formatComponent(view, type, offset + index * size, little)
+  ).join(" ");
+}
+
+// Reads the EXIF block sharp exposes as metadata().exif. Tags libexif has no name for,
+// maker notes and the thumbnail IFD are skipped.
+export function readExif(buffer: Buffer): ExifTag[] {
+  const view = buffer.subarray(tiffStart(buffer));
+  if (view.length < 8) return [];
+  const order = view.subarray(0, 2).toString("latin1");
+  if (order !== "II" && order !== "MM") return [];
+  const little = order === "II";
+  const u16 = (at: number) => (little ? view.readUInt16LE(at) : view.readUInt16BE(at));
+  const u32 = (at: number) => (little ? view.readUInt32LE(at) : view.readUInt32BE(at));
+
+  const tags: ExifTag[] = [];
+  const visited = new Set<number>();
+  const readIfd = (ifd: IfdName, start: number) => {
+    if (visited.has(start) || start < 8 || start + 2 > view.length) return;
+    visited.add(start);
+    const count = u16(start);
+    for (let index = 0; index < count; index += 1) {
+      const entry = start + 2 + index * 12;
+      if (entry + 12 > view.length) return;
+      const id = u16(entry);
+      const type = u16(entry + 2);
+      const components = u32(entry + 4);
+      const size = components * (typeSizes[type] ?? 0);
+      const offset = size <= 4 ? entry + 8 : u32(entry + 8);
+      if (!size || offset + size > view.length) continue;
+
+      if (ifd === "IFD0" && id === EXIF_IFD_POINTER) readIfd("IFD2", u32(entry + 8));
+      else if (ifd === "IFD0" && id === GPS_IFD_POINTER) readIfd("IFD3", u32(entry + 8));
+      else if (ifd === "IFD2" && id === INTEROP_IFD_POINTER)
+        readIfd("IFD4", u32(entry + 8));
+      else {
+        const name = tagNames[ifd][id];
+        const value = name ? formatValue(view, type, components, offset, little) : null;
+        if (name && value !== null) tags.push({ ifd, name, value });
+      }
+    }
+  };
+  readIfd("IFD0", u32(4));
+  return tags;
+}
+
+// Groups tags into the shape sharp's withExif() expects.
+export function toSharpExif(tags: ExifTag[]) {
+  const exif: Record<string, Record<string, string>> = {};
+  for (const tag of tags) {
+    exif[tag.ifd] ??= {};
+    exif[tag.ifd][tag.name] = tag.value;
+  }
+  return exif;
+}
+
+function rationalDegrees(value: string) {
+  const [degrees = 0, minutes = 0, seconds = 0] = value.split(" ").map((part) => {
+    const [numerator, denominator] = part.split("/").map(Number);
+    return denominator ? numerator / denominator : 0;
+  });
+  return degrees + minutes / 60 + seconds / 3600;
+}
+
+// Decimal latitude and longitude, when the GPS IFD has both.
+export function gpsPosition(tags: ExifTag[]) {
+  const gps = (name: string) =>
+    tags.find((tag) => tag.ifd === "IFD3" && tag.name === name)?.value;
+  const latitude = gps("GPSLatitude");
+  const longitude = gps("GPSLongitude");
+  if (!latitude || !longitude) return null;
+  return {
+    latitude: rationalDegrees(latitude) * (gps("GPSLatitudeRef") === "S" ? -1 : 1),
+    longitude: rationalDegrees(longitude) * (gps("GPSLongitudeRef") === "W" ? -1 : 1),
+  };
+}
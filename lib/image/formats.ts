@@ -0,0 +1,165 @@
+import type { Sharp } from "sharp";
+import type { EncodableFormat, EncoderOptions, ExplicitFormat } from "./types";
+
+type Encoder = {
+  label: string;
+  mime: string;
+  extension: string;
+  supportsAlpha: boolean;
+  supportsAnimation: boolean;
+  // Whether the quality setting changes the output size at all.
+  isTunable: (options: EncoderOptions) => boolean;
+  // Set when the encoder keeps full chroma unless told to subsample.
+  fullChromaByDefault?: boolean;
+  // Bits per channel written when a high bit depth is asked for; unset means 8 only.
+  highBits?: number;
+  encode: (pipeline: Sharp, quality: number, options: EncoderOptions) => Sharp;
+};
+
+export const encoders: Record<EncodableFormat, Encoder> = {
+  jpeg: {
+    label: "JPG",
+    mime: "image/jpeg",
+    extension: "jpg",
+    supportsAlpha: false,
+    supportsAnimation: false,
+    isTunable: () => true,
+    encode: (pipeline, quality, options) =>
+      pipeline.jpeg({
+        quality,
+        mozjpeg: true,
+        progressive: options.progressive,
+        chromaSubsampling: options.chromaSubsampling,
+      }),
+  },
+  png: {
+    label: "PNG",
+    mime: "image/png",
+    extension: "png",
+    supportsAlpha: true,
+    supportsAnimation: false,
+    // Quality only drives palette quantisation, which 16-bit output skips.
+    isTunable: (options) => !options.highBitDepth,
+    highBits: 16,
+    encode: (pipeline, quality, options) =>
+      (options.highBitDepth ? pipeline.toColourspace("rgb16") : pipeline).png({
+        quality,
+        compressionLevel: 9,
+        palette: !options.highBitDepth,
+      }),
+  },
+  webp: {
+    label: "WebP",
+    mime: "image/webp",
+    extension: "webp",
+    supportsAlpha: true,
+    supportsAnimation: true,
+    isTunable: (options) => !options.lossless,
+    encode: (pipeline, quality, options) =>
+      pipeline.webp({
+        quality,
+        effort: 5,
+        lossless: options.lossless,
+        delay: options.delay,
+        loop: options.loop,
+      }),
+  },
+  avif: {
+    label: "AVIF",
+    mime: "image/avif",
+    extension: "avif",
+    supportsAlpha: true,
+    supportsAnimation: false,
+    isTunable: () => true,
+    fullChromaByDefault: true,
+    highBits: 12,
+    encode: (pipeline, quality, options) =>
+      pipeline.avif({
+        quality,
+        effort: 5,
+        chromaSubsampling: options.chromaSubsampling,
+        bitdepth: options.highBitDepth ? 12 : 8,
+      }),
+  },
+  tiff: {
+    label: "TIFF",
+    mime: "image/tiff",
+    extension: "tiff",
+    supportsAlpha: false,
+    supportsAnimation: false,
+    isTunable: () => false,
+    highBits: 16,
+    encode: (pipeline, quality, options) =>
+      (options.highBitDepth ? pipeline.toColourspace("rgb16") : pipeline).tiff({
+        quality,
+        compression: "lzw",
+      }),
+  },
+  gif: {
+    label: "GIF",
+    mime: "image/gif",
+    extension: "gif",
+    supportsAlpha: true,
+    supportsAnimation: true,
+    isTunable: () => false,
+    encode: (pipeline, _quality, options) =>
+      pipeline.gif({ delay: options.delay, loop: options.loop }),
+  },
+  heic: {
+    label: "HEIC",
+    mime: "image/heic",
+    extension: "heic",
+    supportsAlpha: true,
+    supportsAnimation: false,
+    isTunable: () => true,
+    encode: (pipeline, quality) =>
+      pipeline.heif({
+        quality,
+        compression: "hevc",
+      }),
+  },
+  jxl: {
+    label: "JPEG XL",
+    mime: "image/jxl",
+    extension: "jxl",
+    supportsAlpha: true,
+    supportsAnimation: false,
+    isTunable: (options) => !options.lossless,
+    encode: (pipeline, quality, options) =>
+      pipeline.jxl({
+        quality,
+        effort: 7,
+        lossless: options.lossless,
+      }),
+  },
+};
+
+// Input extensions that map onto an encoder under a different name.
+const extensionAliases: Record<string, EncodableFormat> = {
+  jpg: "jpeg",
+  jpe: "jpeg",
+  tif: "tiff",
+  heif: "heic",
+  hif: "heic",
+};
+
+export function isEncodableFormat(value: string): value is EncodableFormat {
+  return Object.hasOwn(encoders, value);
+}
+
+export function getExtension(name: string) {
+  const parts = name.split(".");
+  return parts.length > 1 ? (parts.pop() ?? "").toLowerCase() : "";
+}
+
+export function formatFromExtension(extension: string): EncodableFormat | null {
+  const alias = extensionAliases[extension];
+  if (alias) return alias;
+  return isEncodableFormat(extension) ? extension : null;
+}
+
+export function normalizeFormat(format: ExplicitFormat): EncodableFormat {
+  if (format === "jpg") return "jpeg";
+  if (format === "heif") return "heic";
+  return format;
+}
@@ -0,0 +1,32 @@
+import sharp from "sharp";
+import { checkPixelCount, type LimitViolation } from "./limits";
+
+export async function checkInputPixels(
+  buffer: Buffer,
+  name: string
+): Promise<LimitViolation | null> {
+  // metadata() only reads the header, so oversized images are rejected before decoding.
+  // Unreadable files pass through here and fail individually during processing.
+  // Animated inputs report the height of all frames stacked, which is what gets decoded.
+  const metadata = await sharp(buffer, { animated: true, limitInputPixels: false })
+    .metadata()
+    .catch(() => null);
+  if (!metadata) return null;
+  return checkPixelCount(name, metadata.width ?? 0, metadata.height ?? 0);
+}
+
+export async function fileToBuffer(file: File) {
+  const arrayBuffer = await file.arrayBuffer();
+  return Buffer.from(arrayBuffer);
+}
+
+export async function readFiles(files: File[]) {
+  const buffers: Buffer[] = [];
+  for (const file of files) {
+    const buffer = await fileToBuffer(file);
+    const violation = await checkInputPixels(buffer, file.name);
+    if (violation) return { ok: false as const, violation };
+    buffers.push(buffer);
+  }
+  return { ok: true as const, buffers };
+}
@@ -0,0 +1,10 @@
+import { expect, test } from "bun:test";
+import { checkFileLimits, uploadLimits } from "./limits";
+
+test("only a real archive skips the per-file limit", () => {
+  const size = uploadLimits.maxFileBytes + 1;
+  expect(checkFileLimits([{ name: "album.zip", size, archive: true }])).toBeNull();
+  expect(checkFileLimits([{ name: "album.zip", size, archive: false }])?.limit).toBe(
+    "maxFileBytes"
+  );
+});
@@ -0,0 +1,163 @@
+export type UploadLimits = {
+  maxFileBytes: number;
+  maxTotalBytes: number;
+  maxFiles: number;
+  maxInputPixels: number;
+  // Files inside one uploaded ZIP, and the combined unpacked size of a request's ZIPs.
+  maxArchiveEntries: number;
+  maxArchiveBytes: number;
+};
+
+export type LimitViolation = {
+  status: 413 | 422;
+  limit: keyof UploadLimits;
+  message: string;
+};
+
+const MB = 1024 * 1024;
+
+function readLimit(value: string | undefined, fallback: number) {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+const maxTotalBytes = readLimit(process.env.NEXT_PUBLIC_MAX_TOTAL_BYTES, 200 * MB);
+
+// NEXT_PUBLIC_ so the page enforces the same numbers before uploading. Unpacked archives
+// are held in memory like uploads, so by default they get the same budget.
+export const uploadLimits: UploadLimits = {
+  maxFileBytes: readLimit(process.env.NEXT_PUBLIC_MAX_FILE_BYTES, 25 * MB),
+  maxTotalBytes,
+  maxFiles: readLimit(process.env.NEXT_PUBLIC_MAX_FILES, 50),
+  maxInputPixels: readLimit(process.env.NEXT_PUBLIC_MAX_INPUT_PIXELS, 50_000_000),
+  maxArchiveEntries: readLimit(process.env.NEXT_PUBLIC_MAX_ARCHIVE_ENTRIES, 1000),
+  maxArchiveBytes: readLimit(process.env.NEXT_PUBLIC_MAX_ARCHIVE_BYTES, maxTotalBytes),
+};
+
+// What a request's archives have unpacked so far: their limits cover all of them
+// together, and their images count toward maxFiles alongside the plain uploads.
+export type UnpackBudget = { bytes: number; files: number };
+
+// Room for the non-file form fields and multipart boundaries.
+const FORM_OVERHEAD_BYTES = MB;
+
+function formatMB(bytes: number) {
+  return `${Math.round((bytes / MB) * 10) / 10} MB`;
+}
+
+export function checkRequestSize(contentLength: string | null): LimitViolation | null {
+  const length = Number(contentLength);
+  if (!Number.isFinite(length)) return null;
+  if (length > uploadLimits.maxTotalBytes + FORM_OVERHEAD_BYTES) {
+    return {
+      status: 413,
+      limit: "maxTotalBytes",
+      message: `Upload exceeds the ${formatMB(uploadLimits.maxTotalBytes)} request limit.`,
+    };
+  }
+  return null;
+}
+
+// A ZIP bundles many files, so only the request limit applies to its own size; its
+// entries are held to the per-file and archive limits as they are unpacked. `archive`
+// comes from the file's bytes, since a name alone would let anything skip the limit.
+export function checkFileLimits(
+  files: { name: string; size: number; archive: boolean }[]
+): LimitViolation | null {
+  if (files.length > uploadLimits.maxFiles) {
+    return {
+      status: 413,
+      limit: "maxFiles",
+      message: `Too many files: the limit is ${uploadLimits.maxFiles} per request.`,
+    };
+  }
+  const oversized = files.find(
+    (file) => !file.archive && file.size > uploadLimits.maxFileBytes
+  );
+  if (oversized) {
+    return {
+      status: 413,
+      limit: "maxFileBytes",
+      message: `${oversized.name} exceeds the ${formatMB(uploadLimits.maxFileBytes)} per-file limit.`,
+    };
+  }
+  const total = files.reduce((sum, file) => sum + file.size, 0);
+  if (total > uploadLimits.maxTotalBytes) {
+    return {
+      status: 413,
+      limit: "maxTotalBytes",
+      message: `Upload exceeds the ${formatMB(uploadLimits.maxTotalBytes)} request limit.`,
+    };
+  }
+  return null;
+}
+
+export function checkArchiveEntries(name: string, count: number): LimitViolation | null {
+  if (count > uploadLimits.maxArchiveEntries) {
+    return {
+      status: 413,
+      limit: "maxArchiveEntries",
+      message: `${name} holds ${count} files; the limit is ${uploadLimits.maxArchiveEntries} per archive.`,
+    };
+  }
+  return null;
+}
+
+// `entries` are the ones that will be unpacked, and `images` how many of them convert.
+export function checkArchiveSize(
+  name: string,
+  entries: { path: string; size: number }[],
+  images: number,
+  used: UnpackBudget
+): LimitViolation | null {
+  if (used.files + images > uploadLimits.maxFiles) {
+    return {
+      status: 413,
+      limit: "maxFiles",
+      message: `Too many files once ${name} is unpacked: the limit is ${uploadLimits.maxFiles} per request.`,
+    };
+  }
+  const oversized = entries.find((entry) => entry.size > uploadLimits.maxFileBytes);
+  if (oversized) {
+    return {
+      status: 413,
+      limit: "maxFileBytes",
+      message: `${oversized.path} in ${name} exceeds the ${formatMB(uploadLimits.maxFileBytes)} per-file limit.`,
+    };
+  }
+  const total = entries.reduce((sum, entry) => sum + entry.size, used.bytes);
+  if (total > uploadLimits.maxArchiveBytes) {
+    return {
+      status: 413,
+      limit: "maxArchiveBytes",
+      message: `The uploaded archives unpack to more than ${formatMB(uploadLimits.maxArchiveBytes)}.`,
+    };
+  }
+  return null;
+}
+
+export function checkPixelCount(
+  name: string,
+  width: number,
+  height: number
+): LimitViolation | null {
+  if (width * height > uploadLimits.maxInputPixels) {
+    return {
+      status: 422,
+      limit: "maxInputPixels",
+      message: `${name} is ${width}×${height}, above the ${uploadLimits.maxInputPixels.toLocaleString("en-US")} pixel limit.`,
+    };
+  }
+  return null;
+}
+
+export function limitExceeded(violation: LimitViolation) {
+  return Response.json(
+    {
+      error: violation.message,
+      limit: violation.limit,
+      max: uploadLimits[violation.limit],
+    },
+    { status: violation.status }
+  );
+}
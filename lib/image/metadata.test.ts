@@ -0,0 +1,48 @@
+import { expect, test } from "bun:test";
+import { iccDescription } from "./metadata";
+
+// A profile header with one tag pointing at `tag`, which starts right after the table.
+function profile(tag: Buffer) {
+  const table = Buffer.alloc(144);
+  table.writeUInt32BE(1, 128);
+  table.write("desc", 132, "latin1");
+  table.writeUInt32BE(144, 136);
+  table.writeUInt32BE(tag.length, 140);
+  return Buffer.concat([table, tag]);
+}
+
+function descTag(name: string) {
+  const tag = Buffer.alloc(12 + name.length + 1);
+  tag.write("desc", 0, "latin1");
+  tag.writeUInt32BE(name.length + 1, 8);
+  tag.write(name, 12, "latin1");
+  return tag;
+}
+
+function mlucTag(name: string) {
+  const text = Buffer.from(name, "utf16le").swap16();
+  const tag = Buffer.alloc(28 + text.length);
+  tag.write("mluc", 0, "latin1");
+  tag.writeUInt32BE(1, 8);
+  tag.writeUInt32BE(12, 12);
+  tag.write("enUS", 16, "latin1");
+  tag.writeUInt32BE(text.length, 20);
+  tag.writeUInt32BE(28, 24);
+  text.copy(tag, 28);
+  return tag;
+}
+
+test("reads v2 and v4 profile names", () => {
+  expect(iccDescription(profile(descTag("sRGB IEC61966-2.1")))).toBe("sRGB IEC61966-2.1");
+  expect(iccDescription(profile(mlucTag("Display P3")))).toBe("Display P3");
+});
+
+test("a truncated name tag leaves the profile unnamed instead of throwing", () => {
+  for (const tag of [descTag("Display P3"), mlucTag("Display P3")]) {
+    for (const length of [2, 10, 20, 27]) {
+      expect(() => iccDescription(profile(tag.subarray(0, length)))).not.toThrow();
+    }
+  }
+  expect(iccDescription(profile(mlucTag("Display P3").subarray(0, 20)))).toBeUndefined();
+  expect(iccDescription(profile(mlucTag("Display P3").subarray(0, 33)))).toBe("Di");
+});
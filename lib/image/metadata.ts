@@ -0,0 +1,170 @@
+import sharp, { type Metadata } from "sharp";
+import { type ExifTag, gpsPosition, readExif, toSharpExif } from "./exif";
+import type { MetadataOptions, MetadataPlan } from "./types";
+
+export type MetadataReport = {
+  exif: Record<string, Record<string, string>>;
+  hasGps: boolean;
+  gps: { latitude: number; longitude: number } | null;
+  icc?: string;
+  xmp: boolean;
+  iptc: boolean;
+};
+
+// Pixels are auto-rotated before encoding, so a kept orientation would rotate them twice.
+const droppedTags = ["Orientation"];
+
+function escapeRegExp(text: string) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function xmpElement(name: string) {
+  const tag = escapeRegExp(name);
+  return new RegExp(`<${tag}(?:\\s[^>]*)?(?:/>|>[\\s\\S]*?</${tag}>)`, "g");
+}
+
+function xmpAttribute(name: string) {
+  return new RegExp(`\\s${escapeRegExp(name)}="([^"]*)"`, "g");
+}
+
+function stripXmpGps(xmp: string) {
+  return xmp
+    .replace(/\s(?:exif|exifEX):GPS\w*="[^"]*"/g, "")
+    .replace(/<((?:exif|exifEX):GPS\w*)\b[^>]*?(?:\/>|>[\s\S]*?<\/\1>)/g, "");
+}
+
+// Rebuilds a packet holding only the listed properties, with the namespaces they use.
+function pickXmp(xmp: string, names: string[]) {
+  const properties = names.flatMap((name) => [
+    ...(xmp.match(xmpElement(name)) ?? []),
+    ...[...xmp.matchAll(xmpAttribute(name))].map(
+      (match) => `<${name}>${match[1]}</${name}>`
+    ),
+  ]);
+  if (!properties.length) return undefined;
+
+  const prefixes = new Set(names.map((name) => name.split(":")[0]));
+  const namespaces = [...xmp.matchAll(/xmlns:([\w-]+)="([^"]*)"/g)]
+    .filter(([, prefix]) => prefixes.has(prefix))
+    .map(([declaration]) => declaration);
+  return [
+    '<?xpacket begin="﻿" id="W5M0MpCehiHzreSzNTczkc9d"?>',
+    '<x:xmpmeta xmlns:x="adobe:ns:meta/">',
+    '<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">',
+    `<rdf:Description rdf:about="" ${[...new Set(namespaces)].join(" ")}>`,
+    ...properties,
+    "</rdf:Description>",
+    "</rdf:RDF>",
+    "</x:xmpmeta>",
+    '<?xpacket end="w"?>',
+  ].join("\n");
+}
+
+function withCredits(tags: ExifTag[], options: MetadataOptions) {
+  const credits: ExifTag[] = [];
+  if (options.copyright) {
+    credits.push({ ifd: "IFD0", name: "Copyright", value: options.copyright });
+  }
+  if (options.artist)
+    credits.push({ ifd: "IFD0", name: "Artist", value: options.artist });
+  const replaced = new Set(credits.map((tag) => tag.name));
+  return [...tags.filter((tag) => !replaced.has(tag.name)), ...credits];
+}
+
+function keptTags(metadata: Metadata, options: MetadataOptions) {
+  const tags = metadata.exif ? readExif(metadata.exif) : [];
+  const usable = tags.filter((tag) => !droppedTags.includes(tag.name));
+  switch (options.policy) {
+    case "no-gps":
+      return usable.filter((tag) => tag.ifd !== "IFD3");
+    case "allowlist":
+      return usable.filter((tag) => options.allow.includes(tag.name));
+    default:
+      return [];
+  }
+}
+
+function keptXmp(metadata: Metadata, options: MetadataOptions) {
+  const xmp = metadata.xmp?.toString("utf8");
+  if (!xmp) return undefined;
+  if (options.policy === "no-gps") return stripXmpGps(xmp);
+  if (options.policy === "allowlist") {
+    return pickXmp(
+      xmp,
+      options.allow.filter((name) => name.includes(":"))
+    );
+  }
+  return undefined;
+}
+
+// Works out which metadata an input keeps under the policy. IPTC blocks can't be
+// filtered, so they only survive under "all".
+export async function planMetadata(
+  buffer: Buffer,
+  options: MetadataOptions
+): Promise<MetadataPlan | undefined> {
+  const credits = withCredits([], options);
+  const creditExif = credits.length ? toSharpExif(credits) : undefined;
+  switch (options.policy) {
+    case "strip":
+      return creditExif && { keepAll: false, icc: false, exif: creditExif };
+    case "icc":
+      return { keepAll: false, icc: true, exif: creditExif };
+    case "all":
+      return { keepAll: true, icc: false, exif: creditExif };
+  }
+
+  const metadata = await sharp(buffer, { limitInputPixels: false }).metadata();
+  const tags = withCredits(keptTags(metadata, options), options);
+  return {
+    keepAll: false,
+    icc: true,
+    exif: tags.length ? toSharpExif(tags) : undefined,
+    xmp: keptXmp(metadata, options),
+  };
+}
+
+// ICC v2 profiles name themselves in a "desc" tag; v4 profiles use a localized "mluc".
+// Offsets come from the file, so each is checked against the buffer before it is read,
+// and a damaged profile just goes unnamed.
+export function iccDescription(icc: Buffer) {
+  if (icc.length < 132) return undefined;
+  const count = icc.readUInt32BE(128);
+  for (let index = 0; index < count; index += 1) {
+    const entry = 132 + index * 12;
+    if (entry + 12 > icc.length) break;
+    if (icc.toString("latin1", entry, entry + 4) !== "desc") continue;
+    const offset = icc.readUInt32BE(entry + 4);
+    if (offset + 12 > icc.length) return undefined;
+    const type = icc.toString("latin1", offset, offset + 4);
+    if (type === "desc") {
+      const length = icc.readUInt32BE(offset + 8);
+      const end = Math.min(icc.length, offset + 12 + length);
+      return icc.toString("latin1", offset + 12, end).replace(/\0+$/, "");
+    }
+    if (type === "mluc") {
+      if (offset + 28 > icc.length) return undefined;
+      // The first record is enough; its text is big-endian UTF-16.
+      const start = offset + icc.readUInt32BE(offset + 24);
+      const text = icc.subarray(start, start + icc.readUInt32BE(offset + 20));
+      return Buffer.from(text.subarray(0, text.length & ~1))
+        .swap16()
+        .toString("utf16le");
+    }
+  }
+  return undefined;
+}
+
+export async function describeMetadata(buffer: Buffer): Promise<MetadataReport> {
+  const metadata = await sharp(buffer, { limitInputPixels: false }).metadata();
+  const tags = metadata.exif ? readExif(metadata.exif) : [];
+  const xmp = metadata.xmp?.toString("utf8") ?? "";
+  return {
+    exif: toSharpExif(tags),
+    hasGps: tags.some((tag) => tag.ifd === "IFD3") || /(?:exif|exifEX):GPS/.test(xmp),
+    gps: gpsPosition(tags),
+    icc: metadata.icc ? iccDescription(metadata.icc) : undefined,
+    xmp: Boolean(metadata.xmp),
+    iptc: Boolean(metadata.iptc),
+  };
+}
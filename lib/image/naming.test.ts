@@ -0,0 +1,21 @@
+import { expect, test } from "bun:test";
+import { createOrderedNames } from "./naming";
+
+test("repeats are numbered in input order, not finishing order", async () => {
+  const names = createOrderedNames();
+  const late = names.claimFor(1)("photo.webp");
+  await new Promise((resolve) => setTimeout(resolve, 10));
+  const early = names.claimFor(0)("photo.webp");
+  names.finish(1);
+  expect(await early).toBe("photo.webp");
+  names.finish(0);
+  expect(await late).toBe("photo-2.webp");
+});
+
+test("a file that claims nothing still lets later files name theirs", async () => {
+  const names = createOrderedNames();
+  const claimed = names.claimFor(2)("photo.webp");
+  names.finish(1);
+  names.finish(0);
+  expect(await claimed).toBe("photo.webp");
+});
@@ -0,0 +1,150 @@
+import { createHash } from "node:crypto";
+import { encoders } from "./formats";
+import type { EncodableFormat, EncodedImage } from "./types";
+
+export const filenameTokens = [
+  "name",
+  "width",
+  "height",
+  "format",
+  "quality",
+  "index",
+  "hash8",
+] as const;
+
+export type FilenameToken = (typeof filenameTokens)[number];
+
+export const DEFAULT_FILENAME = "{name}";
+
+// Always written next to the outputs, so no output may take its name.
+export const REPORT_NAME = "report.json";
+
+// Names one input's outputs. Every name includes the input's folder and is unique within
+// the batch.
+export type OutputNamer = {
+  // The input's folder, with a trailing slash, or "" at the top level.
+  dir: string;
+  output: (format: EncodableFormat, encoded: EncodedImage) => Promise<string>;
+  // Responsive variants get "-{width}w" unless the template places the width itself.
+  variant: (format: EncodableFormat, encoded: EncodedImage) => Promise<string>;
+  // Files about the input as a whole, such as a responsive set's manifest.
+  companion: (extension: string) => Promise<string>;
+};
+
+export function baseNameOf(inputName: string) {
+  return inputName.replace(/\.[^/.]+$/, "");
+}
+
+export function checkFilenameTemplate(template: string) {
+  const unknown = [...template.matchAll(/\{([^}]*)\}/g)].find(
+    ([, token]) => !(filenameTokens as readonly string[]).includes(token)
+  );
+  if (unknown) {
+    return `Unknown token ${unknown[0]}; use ${filenameTokens.map((token) => `{${token}}`).join(", ")}.`;
+  }
+  return undefined;
+}
+
+// Relative paths come from the browser, so anything that could climb out of the archive
+// or trip up a file system is dropped or replaced.
+export function cleanSegments(path: string) {
+  return path
+    .split(/[/\\]/)
+    .map((segment) => segment.replace(/[<>:"|?*\x00-\x1f]/g, "_").trim())
+    .filter((segment) => segment && segment !== "." && segment !== "..");
+}
+
+function splitInputPath(inputName: string) {
+  const segments = cleanSegments(inputName);
+  const file = segments.pop() ?? "image";
+  return {
+    dir: segments.map((segment) => `${segment}/`).join(""),
+    name: baseNameOf(file) || "image",
+  };
+}
+
+// Reserves each name as it is handed out and numbers repeats, ignoring case so the
+// archive also unpacks cleanly on case-insensitive file systems.
+export function createNameRegistry() {
+  const taken = new Set([REPORT_NAME]);
+  return (name: string) => {
+    const extension = name.match(/\.[^/.]+$/)?.[0] ?? "";
+    const stem = name.slice(0, name.length - extension.length);
+    let candidate = name;
+    for (let count = 2; taken.has(candidate.toLowerCase()); count += 1) {
+      candidate = `${stem}-${count}${extension}`;
+    }
+    taken.add(candidate.toLowerCase());
+    return candidate;
+  };
+}
+
+// Output names depend on the encoded image, so files would otherwise claim them in
+// whichever order their encodes finish. Each file's claims wait until every earlier file
+// is done, so repeats are numbered in input order however the batch is scheduled.
+export type OrderedNames = {
+  claimFor: (index: number) => (name: string) => Promise<string>;
+  // Called once per file, whether it succeeded or not.
+  finish: (index: number) => void;
+};
+
+export function createOrderedNames(claim = createNameRegistry()): OrderedNames {
+  const done: Promise<void>[] = [];
+  const finishers: (() => void)[] = [];
+  const doneAt = (index: number) => {
+    if (index < 0) return Promise.resolve();
+    done[index] ??= new Promise((resolve) => {
+      finishers[index] = resolve;
+    });
+    return done[index];
+  };
+
+  return {
+    claimFor: (index) => async (name) => {
+      await doneAt(index - 1);
+      return claim(name);
+    },
+    finish: (index) => {
+      doneAt(index);
+      doneAt(index - 1).then(finishers[index]);
+    },
+  };
+}
+
+export function createNamer(
+  inputName: string,
+  template: string,
+  index: number,
+  claim: (name: string) => Promise<string>
+): OutputNamer {
+  const { dir, name } = splitInputPath(inputName);
+
+  const render = (pattern: string, format: EncodableFormat, encoded: EncodedImage) => {
+    const values: Record<FilenameToken, () => string> = {
+      name: () => name,
+      width: () => String(encoded.width),
+      height: () => String(encoded.height),
+      format: () => format,
+      quality: () => String(encoded.quality),
+      index: () => String(index + 1),
+      hash8: () => createHash("sha256").update(encoded.buffer).digest("hex").slice(0, 8),
+    };
+    const rendered = pattern.replace(/\{(\w+)\}/g, (_, token: FilenameToken) =>
+      values[token]()
+    );
+    const path = cleanSegments(rendered).join("/") || name;
+    return claim(`${dir}${path}.${encoders[format].extension}`);
+  };
+
+  return {
+    dir,
+    output: (format, encoded) => render(template, format, encoded),
+    variant: (format, encoded) =>
+      render(
+        template.includes("{width}") ? template : `${template}-{width}w`,
+        format,
+        encoded
+      ),
+    companion: (extension) => claim(`${dir}${name}.${extension}`),
+  };
+}
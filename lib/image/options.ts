@@ -0,0 +1,317 @@
+import {
+  booleanField,
+  colorField,
+  enumField,
+  listField,
+  numberField,
+  parseFields,
+  type ParseResult,
+  textField,
+} from "./schema";
+import { normalizeFormat } from "./formats";
+import { checkFilenameTemplate, DEFAULT_FILENAME } from "./naming";
+import {
+  type AspectRatio,
+  aspectRatios,
+  bitDepths,
+  colorSpaces,
+  type ConvertOptions,
+  type CropOptions,
+  cropStrategies,
+  type CropStrategy,
+  type ExplicitFormat,
+  type MetadataOptions,
+  metadataPolicies,
+  type MetadataPolicy,
+  type WatermarkOptions,
+  type WatermarkPosition,
+  watermarkPositions,
+  fits,
+  outputFormats,
+  presetQuality,
+  presets,
+} from "./types";
+
+export const MAX_DIMENSION = 16384;
+
+export const MAX_TARGET_SIZE_KB = 100 * 1024;
+
+export const MAX_RESPONSIVE_WIDTHS = 12;
+
+// Crop coordinates refer to the source, which can be larger than any output dimension.
+const MAX_CROP_OFFSET = 1_000_000;
+
+const variantFormats = outputFormats.filter(
+  (format): format is ExplicitFormat => format !== "auto" && format !== "best"
+);
+
+const convertSchema = {
+  format: enumField(outputFormats, "auto"),
+  preset: enumField(presets, "balanced"),
+  quality: numberField({ min: 1, max: 100, integer: true, fallback: undefined }),
+  targetSizeKB: numberField({ min: 0, max: MAX_TARGET_SIZE_KB, fallback: 0 }),
+  targetSsim: numberField({ min: 0, max: 1, fallback: 0 }),
+  width: numberField({ min: 0, max: MAX_DIMENSION, integer: true, fallback: 0 }),
+  height: numberField({ min: 0, max: MAX_DIMENSION, integer: true, fallback: 0 }),
+  fit: enumField(fits, "inside"),
+  crop: listField(
+    numberField({ min: 0, max: MAX_CROP_OFFSET, integer: true, fallback: 0 }),
+    {
+      maxItems: 4,
+    }
+  ),
+  aspect: enumField(aspectRatios, "original"),
+  focusX: numberField({ min: 0, max: 1, fallback: undefined }),
+  focusY: numberField({ min: 0, max: 1, fallback: undefined }),
+  cropStrategy: enumField(cropStrategies, "center"),
+  watermarkText: textField({ maxLength: 200, fallback: "" }),
+  watermarkPosition: enumField(watermarkPositions, "bottom-right"),
+  watermarkX: numberField({ min: 0, max: 1, fallback: undefined }),
+  watermarkY: numberField({ min: 0, max: 1, fallback: undefined }),
+  watermarkOpacity: numberField({ min: 0, max: 1, fallback: 0.5 }),
+  watermarkScale: numberField({ min: 0.01, max: 1, fallback: 0.2 }),
+  watermarkMargin: numberField({
+    min: 0,
+    max: MAX_DIMENSION,
+    integer: true,
+    fallback: 16,
+  }),
+  watermarkTile: booleanField(),
+  keepMetadata: booleanField(),
+  metadata: enumField(metadataPolicies, "strip"),
+  metadataAllow: listField(textField({ maxLength: 64, fallback: "" }), { maxItems: 50 }),
+  copyright: textField({ maxLength: 200, fallback: "" }),
+  artist: textField({ maxLength: 200, fallback: "" }),
+  colorSpace: enumField(colorSpaces, "srgb"),
+  bitDepth: enumField(bitDepths, "auto"),
+  flatten: booleanField(),
+  background: colorField("#ffffff"),
+  lossless: booleanField(),
+  progressive: booleanField(),
+  placeholders: booleanField(),
+  passThrough: booleanField(),
+  filename: textField({ maxLength: 200, fallback: DEFAULT_FILENAME }),
+  firstFrameOnly: booleanField(),
+  frameStep: numberField({ min: 1, max: 100, integer: true, fallback: 1 }),
+  maxFps: numberField({ min: 0, max: 100, fallback: 0 }),
+  responsiveWidths: listField(
+    numberField({ min: 1, max: MAX_DIMENSION, integer: true, fallback: 0 }),
+    { maxItems: MAX_RESPONSIVE_WIDTHS }
+  ),
+  responsiveFormats: listField(enumField(variantFormats, "webp"), { maxItems: 6 }),
+  responsiveSizes: textField({ maxLength: 200, fallback: "100vw" }),
+};
+
+// Every form field that configures a conversion, as opposed to the uploaded files.
+export const optionFields = Object.keys(convertSchema);
+
+function parseRatio(ratio: string) {
+  const [width, height] = ratio.split(":").map(Number);
+  return width / height;
+}
+
+function parseCrop(fields: {
+  crop: number[];
+  aspect: AspectRatio;
+  focusX?: number;
+  focusY?: number;
+  cropStrategy: CropStrategy;
+}): ParseResult<CropOptions> {
+  const { crop, focusX, focusY, cropStrategy } = fields;
+  if (crop.length && crop.length !== 4) {
+    return { ok: false, errors: { crop: "Must be left, top, width, height." } };
+  }
+  if (crop.length && (!crop[2] || !crop[3])) {
+    return { ok: false, errors: { crop: "Width and height must be above 0." } };
+  }
+  if ((focusX === undefined) !== (focusY === undefined)) {
+    return { ok: false, errors: { focusX: "Set both focusX and focusY." } };
+  }
+  const focus =
+    focusX !== undefined && focusY !== undefined ? { x: focusX, y: focusY } : undefined;
+  if (focus && cropStrategy !== "center") {
+    return {
+      ok: false,
+      errors: { cropStrategy: "Use either a focal point or a crop strategy, not both." },
+    };
+  }
+  const [left, top, width, height] = crop;
+  return {
+    ok: true,
+    value: {
+      rect: crop.length ? { left, top, width, height } : undefined,
+      aspect: fields.aspect === "original" ? undefined : parseRatio(fields.aspect),
+      focus,
+      strategy: cropStrategy,
+    },
+  };
+}
+
+function parseWatermark(
+  fields: {
+    watermarkText: string;
+    watermarkPosition: WatermarkPosition;
+    watermarkX?: number;
+    watermarkY?: number;
+    watermarkOpacity: number;
+    watermarkScale: number;
+    watermarkMargin: number;
+    watermarkTile: boolean;
+  },
+  hasImage: boolean
+): ParseResult<WatermarkOptions | undefined> {
+  const text = fields.watermarkText;
+  if (!text && !hasImage) return { ok: true, value: undefined };
+  if (text && hasImage) {
+    return {
+      ok: false,
+      errors: { watermarkText: "Use either a watermark image or text, not both." },
+    };
+  }
+  const { watermarkX: x, watermarkY: y } = fields;
+  if ((x === undefined) !== (y === undefined)) {
+    return { ok: false, errors: { watermarkX: "Set both watermarkX and watermarkY." } };
+  }
+  return {
+    ok: true,
+    value: {
+      text: text || undefined,
+      position: fields.watermarkPosition,
+      offset: x !== undefined && y !== undefined ? { x, y } : undefined,
+      opacity: fields.watermarkOpacity,
+      scale: fields.watermarkScale,
+      margin: fields.watermarkMargin,
+      tile: fields.watermarkTile,
+    },
+  };
+}
+
+function parseMetadata(fields: {
+  policy: MetadataPolicy;
+  metadataAllow: string[];
+  copyright: string;
+  artist: string;
+}): ParseResult<MetadataOptions> {
+  const allow = fields.metadataAllow.filter(Boolean);
+  if (fields.policy === "allowlist" && !allow.length) {
+    return { ok: false, errors: { metadataAllow: "List the tags to keep." } };
+  }
+  return {
+    ok: true,
+    value: {
+      policy: fields.policy,
+      allow,
+      copyright: fields.copyright || undefined,
+      artist: fields.artist || undefined,
+    },
+  };
+}
+
+export function parseConvertOptions(formData: FormData): ParseResult<ConvertOptions> {
+  const parsed = parseFields(formData, convertSchema);
+  if (!parsed.ok) return parsed;
+  if (parsed.value.targetSizeKB > 0 && parsed.value.targetSsim > 0) {
+    return {
+      ok: false,
+      errors: { targetSsim: "Use either a target size or a target SSIM, not both." },
+    };
+  }
+
+  const {
+    preset,
+    quality,
+    width,
+    height,
+    crop,
+    aspect,
+    focusX,
+    focusY,
+    cropStrategy,
+    keepMetadata,
+    metadata,
+    metadataAllow,
+    copyright,
+    artist,
+    watermarkText,
+    watermarkPosition,
+    watermarkX,
+    watermarkY,
+    watermarkOpacity,
+    watermarkScale,
+    watermarkMargin,
+    watermarkTile,
+    responsiveWidths,
+    responsiveFormats,
+    responsiveSizes,
+    firstFrameOnly,
+    frameStep,
+    maxFps,
+    ...rest
+  } = parsed.value;
+  const cropOptions = parseCrop({ crop, aspect, focusX, focusY, cropStrategy });
+  if (!cropOptions.ok) return cropOptions;
+  // The image itself is read later, in readWatermarkImage.
+  const watermark = parseWatermark(
+    {
+      watermarkText,
+      watermarkPosition,
+      watermarkX,
+      watermarkY,
+      watermarkOpacity,
+      watermarkScale,
+      watermarkMargin,
+      watermarkTile,
+    },
+    formData.get("watermark") instanceof File
+  );
+  if (!watermark.ok) return watermark;
+  // keepMetadata predates the policies and still means "all" when no policy is sent.
+  const metadataOptions = parseMetadata({
+    policy: formData.get("metadata") ? metadata : keepMetadata ? "all" : "strip",
+    metadataAllow,
+    copyright,
+    artist,
+  });
+  if (!metadataOptions.ok) return metadataOptions;
+  const filenameError = checkFilenameTemplate(parsed.value.filename);
+  if (filenameError) return { ok: false, errors: { filename: filenameError } };
+  // Comparing formats for every variant would multiply the encodes by the widths.
+  if (responsiveWidths.length && !responsiveFormats.length && rest.format === "best") {
+    return {
+      ok: false,
+      errors: {
+        format: "Responsive sets can't use best; list responsiveFormats instead.",
+      },
+    };
+  }
+
+  return {
+    ok: true,
+    value: {
+      ...rest,
+      quality: quality ?? presetQuality[preset],
+      width: width || undefined,
+      height: height || undefined,
+      crop: cropOptions.value,
+      metadata: metadataOptions.value,
+      watermark: watermark.value,
+      animation: { keep: !firstFrameOnly, frameStep, maxFps },
+      responsive: responsiveWidths.length
+        ? {
+            widths: responsiveWidths,
+            formats: [...new Set(responsiveFormats.map((f) => normalizeFormat(f)))],
+            sizes: responsiveSizes,
+          }
+        : undefined,
+    },
+  };
+}
+
+// Empty entries are what a form sends for a file input left blank.
+export function getFiles(formData: FormData): ParseResult<File[]> {
+  const entries = formData.getAll("files").filter(Boolean);
+  if (entries.some((entry) => !(entry instanceof File))) {
+    return { ok: false, errors: { files: "Must be uploaded files, not text." } };
+  }
+  return { ok: true, value: entries as File[] };
+}
@@ -0,0 +1,149 @@
+import { optionFields, parseConvertOptions } from "./options";
+import type { FieldErrors, FieldResult, ParseResult } from "./schema";
+import type { ConvertOptions } from "./types";
+
+// Per-file options arrive as one JSON object, keyed by a file's position in the upload
+// ("0") or by a name pattern ("*.png"), whose values replace form fields for the files
+// they match.
+export type OverrideRule = {
+  key: string;
+  index?: number;
+  pattern?: RegExp;
+  fields: Record<string, string>;
+};
+
+const MAX_OVERRIDES_LENGTH = 20_000;
+const MAX_OVERRIDE_RULES = 100;
+
+// "*" matches any run of characters and "?" any single one, ignoring case.
+function globPattern(glob: string) {
+  const source = glob
+    .split("")
+    .map((char) =>
+      char === "*" ? ".*" : char === "?" ? "." : char.replace(/[.+^${}()|[\]\\]/g, "\\$&")
+    )
+    .join("");
+  return new RegExp(`^${source}$`, "i");
+}
+
+export function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// Options written as JSON, as in overrides and preset documents, become the form fields
+// the form would have sent: lists are joined with commas and the rest turned to text.
+export function readOptionValues(value: unknown): FieldResult<Record<string, string>> {
+  if (!isObject(value)) return { ok: false, error: "Must be an object of options." };
+  const fields: Record<string, string> = {};
+  for (const [field, raw] of Object.entries(value)) {
+    if (!optionFields.includes(field)) {
+      return { ok: false, error: `Unknown option "${field}".` };
+    }
+    if (Array.isArray(raw)) {
+      fields[field] = raw.join(",");
+    } else if (["string", "number", "boolean"].includes(typeof raw)) {
+      fields[field] = String(raw);
+    } else {
+      return { ok: false, error: `"${field}" must be a text, number or boolean value.` };
+    }
+  }
+  return { ok: true, value: fields };
+}
+
+function parseRule(key: string, value: unknown): ParseResult<OverrideRule> {
+  const fields = readOptionValues(value);
+  if (!fields.ok) {
+    return { ok: false, errors: { overrides: `"${key}": ${fields.error}` } };
+  }
+  return {
+    ok: true,
+    value: /^\d+$/.test(key)
+      ? { key, index: Number(key), fields: fields.value }
+      : { key, pattern: globPattern(key), fields: fields.value },
+  };
+}
+
+export function parseOverrides(
+  raw: FormDataEntryValue | null
+): ParseResult<OverrideRule[]> {
+  const invalid = (message: string): ParseResult<OverrideRule[]> => ({
+    ok: false,
+    errors: { overrides: message },
+  });
+  if (raw === null || raw === "") return { ok: true, value: [] };
+  if (typeof raw !== "string") return invalid("Must be a JSON object.");
+  if (raw.length > MAX_OVERRIDES_LENGTH) {
+    return invalid(`Must be at most ${MAX_OVERRIDES_LENGTH} characters.`);
+  }
+
+  let document: unknown;
+  try {
+    document = JSON.parse(raw);
+  } catch {
+    return invalid("Must be a JSON object.");
+  }
+  if (!isObject(document)) return invalid("Must be a JSON object.");
+  const entries = Object.entries(document);
+  if (entries.length > MAX_OVERRIDE_RULES) {
+    return invalid(`Must have at most ${MAX_OVERRIDE_RULES} entries.`);
+  }
+
+  const rules: OverrideRule[] = [];
+  for (const [key, value] of entries) {
+    const rule = parseRule(key, value);
+    if (!rule.ok) return rule;
+    rules.push(rule.value);
+  }
+  return { ok: true, value: rules };
+}
+
+// Patterns apply in the order given and an index applies last, since it names one upload.
+function matchingRules(rules: OverrideRule[], name: string, source: number) {
+  return [
+    ...rules.filter((rule) => rule.pattern?.test(name)),
+    ...rules.filter((rule) => rule.index === source),
+  ];
+}
+
+// `sources` holds each file's position in the upload, which the images of one ZIP share,
+// so indexes and errors refer to what the client sent rather than the unpacked list.
+// Files that match the same rules share one options object, and files that match none
+// share `base`. Errors are keyed by upload position, as "files.2.format".
+export function applyOverrides(
+  formData: FormData,
+  files: File[],
+  sources: number[],
+  base: ConvertOptions,
+  rules: OverrideRule[]
+): ParseResult<ConvertOptions[]> {
+  const parsed = new Map<string, ParseResult<ConvertOptions>>();
+  const errors: FieldErrors = {};
+  const fileOptions = files.map((file, index) => {
+    const matched = matchingRules(rules, file.name, sources[index]);
+    if (!matched.length) return base;
+
+    const signature = matched.map((rule) => rule.key).join("\n");
+    let result = parsed.get(signature);
+    if (!result) {
+      const merged = new FormData();
+      for (const [key, value] of formData) merged.append(key, value);
+      for (const rule of matched) {
+        for (const [field, value] of Object.entries(rule.fields)) {
+          merged.set(field, value);
+        }
+      }
+      result = parseConvertOptions(merged);
+      parsed.set(signature, result);
+    }
+    if (!result.ok) {
+      for (const [field, message] of Object.entries(result.errors)) {
+        errors[`files.${sources[index]}.${field}`] = message;
+      }
+      return base;
+    }
+    return result.value;
+  });
+  return Object.keys(errors).length
+    ? { ok: false, errors }
+    : { ok: true, value: fileOptions };
+}
@@ -0,0 +1,85 @@
+import sharp, { type OutputInfo, type Sharp } from "sharp";
+import { toDisplayP3 } from "./color";
+import { uploadLimits } from "./limits";
+import type { ColorPlan, MetadataPlan, PipelineOptions } from "./types";
+
+export type DecodedImage = { data: Buffer; info: OutputInfo };
+
+export type ImageInput = Buffer | DecodedImage;
+
+function openImage(input: ImageInput, animated = false) {
+  if (Buffer.isBuffer(input)) {
+    return sharp(input, {
+      animated,
+      limitInputPixels: uploadLimits.maxInputPixels,
+    }).rotate();
+  }
+  // Raw frames are stacked vertically, and pageHeight splits them back up. sharp only
+  // resizes and extracts frame by frame when it is also told the page count.
+  const { width, height, channels, pageHeight } = input.info;
+  return sharp(input.data, {
+    raw: { width, height, channels, pageHeight },
+    pages: pageHeight ? height / pageHeight : 1,
+  });
+}
+
+// Decodes (and auto-rotates) once so several variants can be cut from the same pixels.
+export async function decodeImage(
+  buffer: Buffer,
+  animated = false
+): Promise<DecodedImage> {
+  const { data, info } = await openImage(buffer, animated)
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  return { data, info };
+}
+
+function applyMetadata(pipeline: Sharp, plan: MetadataPlan) {
+  if (plan.keepAll) pipeline = pipeline.withMetadata();
+  if (plan.exif) {
+    pipeline = plan.keepAll
+      ? pipeline.withExifMerge(plan.exif)
+      : pipeline.withExif(plan.exif);
+  }
+  if (plan.xmp) pipeline = pipeline.withXmp(plan.xmp);
+  return pipeline;
+}
+
+// Profiles are handled here rather than in applyMetadata, since they change the pixels.
+function applyColor(pipeline: Sharp, plan: ColorPlan) {
+  if (plan.profile === "keep") return pipeline.keepIccProfile();
+  if (plan.wideGamut) pipeline = pipeline.pipelineColourspace("rgb16");
+  return pipeline.withIccProfile(plan.profile, { attach: plan.attach });
+}
+
+export function buildPipeline(input: ImageInput, options: PipelineOptions) {
+  let pipeline = openImage(input, options.animated);
+  if (options.region) {
+    pipeline = pipeline.extract(options.region);
+  }
+  if (options.width || options.height) {
+    pipeline = pipeline.resize({
+      width: options.width || undefined,
+      height: options.height || undefined,
+      fit: options.fit || "inside",
+      withoutEnlargement: true,
+    });
+  }
+  if (options.overlay?.length) {
+    pipeline = pipeline.composite(options.overlay);
+  }
+  if (options.metadata) {
+    pipeline = applyMetadata(pipeline, options.metadata);
+  }
+  if (options.color) {
+    pipeline = applyColor(pipeline, options.color);
+  }
+  if (options.background) {
+    pipeline = pipeline.flatten({
+      background: options.color?.wideGamut
+        ? toDisplayP3(options.background)
+        : options.background,
+    });
+  }
+  return pipeline;
+}
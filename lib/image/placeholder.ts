@@ -0,0 +1,250 @@
+import sharp from "sharp";
+import { buildPipeline, type ImageInput } from "./pipeline";
+import type { EncoderOptions, Placeholder } from "./types";
+import { overlayFor } from "./watermark";
+
+// ThumbHash is defined for images up to 100×100, and BlurHash gains nothing from more.
+const PLACEHOLDER_SIDE = 100;
+// next/image scales the blurred data URL up, so a handful of pixels is plenty.
+const LQIP_SIDE = 16;
+const LQIP_QUALITY = 50;
+
+type Rgba = { width: number; height: number; data: Uint8Array };
+
+const BASE83 =
+  "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz#$%*+,-.:;=?@[]^_{|}~";
+
+function base83(value: number, length: number) {
+  let result = "";
+  for (let digit = 1; digit <= length; digit += 1) {
+    result += BASE83[Math.floor(value / 83 ** (length - digit)) % 83];
+  }
+  return result;
+}
+
+function toLinear(value: number) {
+  const c = value / 255;
+  return c <= 0.04045 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4;
+}
+
+function fromLinear(value: number) {
+  const c = Math.min(1, Math.max(0, value));
+  return c <= 0.0031308
+    ? Math.round(c * 12.92 * 255 + 0.5)
+    : Math.round((1.055 * c ** (1 / 2.4) - 0.055) * 255 + 0.5);
+}
+
+function signPow(value: number, exponent: number) {
+  return Math.sign(value) * Math.abs(value) ** exponent;
+}
+
+// https://github.com/woltapp/blurhash/blob/master/Algorithm.md. BlurHash has no alpha,
+// so transparent pixels are laid over white first.
+function encodeBlurHash({ width, height, data }: Rgba) {
+  const componentsX = width >= height ? 4 : 3;
+  const componentsY = width >= height ? 3 : 4;
+  const linear = [0, 1, 2].map(() => new Float64Array(width * height));
+  for (let i = 0; i < width * height; i += 1) {
+    const alpha = data[i * 4 + 3] / 255;
+    for (let c = 0; c < 3; c += 1) {
+      linear[c][i] = toLinear(data[i * 4 + c] * alpha + 255 * (1 - alpha));
+    }
+  }
+
+  const factors: number[][] = [];
+  for (let j = 0; j < componentsY; j += 1) {
+    for (let i = 0; i < componentsX; i += 1) {
+      const normalisation = i === 0 && j === 0 ? 1 : 2;
+      const factor = [0, 0, 0];
+      for (let y = 0; y < height; y += 1) {
+        for (let x = 0; x < width; x += 1) {
+          const basis =
+            Math.cos((Math.PI * i * x) / width) * Math.cos((Math.PI * j * y) / height);
+          for (let c = 0; c < 3; c += 1) factor[c] += basis * linear[c][x + y * width];
+        }
+      }
+      factors.push(factor.map((value) => (value * normalisation) / (width * height)));
+    }
+  }
+
+  const [dc, ...ac] = factors;
+  let hash = base83(componentsX - 1 + (componentsY - 1) * 9, 1);
+  let maximum = 1;
+  if (ac.length) {
+    const actual = Math.max(...ac.flat().map(Math.abs));
+    const quantised = Math.floor(
+      Math.max(0, Math.min(82, Math.floor(actual * 166 - 0.5)))
+    );
+    maximum = (quantised + 1) / 166;
+    hash += base83(quantised, 1);
+  } else {
+    hash += base83(0, 1);
+  }
+  hash += base83(
+    (fromLinear(dc[0]) << 16) + (fromLinear(dc[1]) << 8) + fromLinear(dc[2]),
+    4
+  );
+  for (const factor of ac) {
+    const [r, g, b] = factor.map((value) =>
+      Math.floor(
+        Math.max(0, Math.min(18, Math.floor(signPow(value / maximum, 0.5) * 9 + 9.5)))
+      )
+    );
+    hash += base83(r * 19 * 19 + g * 19 + b, 2);
+  }
+  return hash;
+}
+
+// A port of rgbaToThumbHash from https://github.com/evanw/thumbhash.
+function encodeThumbHash({ width: w, height: h, data }: Rgba) {
+  let avgR = 0;
+  let avgG = 0;
+  let avgB = 0;
+  let avgA = 0;
+  for (let i = 0, j = 0; i < w * h; i += 1, j += 4) {
+    const alpha = data[j + 3] / 255;
+    avgR += (alpha / 255) * data[j];
+    avgG += (alpha / 255) * data[j + 1];
+    avgB += (alpha / 255) * data[j + 2];
+    avgA += alpha;
+  }
+  if (avgA) {
+    avgR /= avgA;
+    avgG /= avgA;
+    avgB /= avgA;
+  }
+
+  const hasAlpha = avgA < w * h;
+  const lLimit = hasAlpha ? 5 : 7;
+  const lx = Math.max(1, Math.round((lLimit * w) / Math.max(w, h)));
+  const ly = Math.max(1, Math.round((lLimit * h) / Math.max(w, h)));
+  const l: number[] = [];
+  const p: number[] = [];
+  const q: number[] = [];
+  const a: number[] = [];
+  for (let i = 0, j = 0; i < w * h; i += 1, j += 4) {
+    const alpha = data[j + 3] / 255;
+    const r = avgR * (1 - alpha) + (alpha / 255) * data[j];
+    const g = avgG * (1 - alpha) + (alpha / 255) * data[j + 1];
+    const b = avgB * (1 - alpha) + (alpha / 255) * data[j + 2];
+    l[i] = (r + g + b) / 3;
+    p[i] = (r + g) / 2 - b;
+    q[i] = r - g;
+    a[i] = alpha;
+  }
+
+  const encodeChannel = (channel: number[], nx: number, ny: number) => {
+    let dc = 0;
+    let scale = 0;
+    const ac: number[] = [];
+    const fx: number[] = [];
+    for (let cy = 0; cy < ny; cy += 1) {
+      for (let cx = 0; cx * ny < nx * (ny - cy); cx += 1) {
+        let f = 0;
+        for (let x = 0; x < w; x += 1) fx[x] = Math.cos((Math.PI / w) * cx * (x + 0.5));
+        for (let y = 0; y < h; y += 1) {
+          const fy = Math.cos((Math.PI / h) * cy * (y + 0.5));
+          for (let x = 0; x < w; x += 1) f += channel[x + y * w] * fx[x] * fy;
+        }
+        f /= w * h;
+        if (cx || cy) {
+          ac.push(f);
+          scale = Math.max(scale, Math.abs(f));
+        } else {
+          dc = f;
+        }
+      }
+    }
+    if (scale) {
+      for (let i = 0; i < ac.length; i += 1) ac[i] = 0.5 + (0.5 / scale) * ac[i];
+    }
+    return { dc, ac, scale };
+  };
+  const lum = encodeChannel(l, Math.max(3, lx), Math.max(3, ly));
+  const yb = encodeChannel(p, 3, 3);
+  const rg = encodeChannel(q, 3, 3);
+  const alpha = hasAlpha ? encodeChannel(a, 5, 5) : null;
+
+  const isLandscape = w > h;
+  const header24 =
+    Math.round(63 * lum.dc) |
+    (Math.round(31.5 + 31.5 * yb.dc) << 6) |
+    (Math.round(31.5 + 31.5 * rg.dc) << 12) |
+    (Math.round(31 * lum.scale) << 18) |
+    (Number(hasAlpha) << 23);
+  const header16 =
+    (isLandscape ? ly : lx) |
+    (Math.round(63 * yb.scale) << 3) |
+    (Math.round(63 * rg.scale) << 9) |
+    (Number(isLandscape) << 15);
+  const hash = [
+    header24 & 255,
+    (header24 >> 8) & 255,
+    header24 >> 16,
+    header16 & 255,
+    header16 >> 8,
+  ];
+  if (alpha) hash.push(Math.round(15 * alpha.dc) | (Math.round(15 * alpha.scale) << 4));
+
+  const acStart = hash.length;
+  let acIndex = 0;
+  const channels = alpha ? [lum.ac, yb.ac, rg.ac, alpha.ac] : [lum.ac, yb.ac, rg.ac];
+  for (const ac of channels) {
+    for (const f of ac) {
+      const at = acStart + (acIndex >> 1);
+      hash[at] = (hash[at] ?? 0) | (Math.round(15 * f) << ((acIndex & 1) << 2));
+      acIndex += 1;
+    }
+  }
+  return Buffer.from(hash).toString("base64");
+}
+
+function toHex({ r, g, b }: { r: number; g: number; b: number }) {
+  return `#${[r, g, b].map((value) => value.toString(16).padStart(2, "0")).join("")}`;
+}
+
+// Renders the output at placeholder size through the same pipeline, so crops, padding
+// and watermarks show up in the placeholder too. Animations use their first frame.
+async function renderSmall(
+  input: ImageInput,
+  options: EncoderOptions,
+  size: { width: number; height: number }
+): Promise<Rgba> {
+  const scale = Math.min(1, PLACEHOLDER_SIDE / Math.max(size.width, size.height));
+  const small: EncoderOptions = {
+    ...options,
+    width: Math.max(1, Math.round(size.width * scale)),
+    height: Math.max(1, Math.round(size.height * scale)),
+    // Placeholders are shown as plain sRGB, whatever profile the output carries.
+    color: undefined,
+    animated: false,
+  };
+  const overlay = await overlayFor(input, small);
+  const { data, info } = await buildPipeline(input, { ...small, overlay })
+    .withIccProfile("srgb", { attach: false })
+    .ensureAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  const height = info.pageHeight ?? info.height;
+  return { width: info.width, height, data: data.subarray(0, info.width * height * 4) };
+}
+
+export async function createPlaceholder(
+  input: ImageInput,
+  options: EncoderOptions,
+  size: { width: number; height: number }
+): Promise<Placeholder> {
+  const rgba = await renderSmall(input, options, size);
+  const raw = { width: rgba.width, height: rgba.height, channels: 4 as const };
+  const lqip = await sharp(rgba.data, { raw })
+    .resize(LQIP_SIDE, LQIP_SIDE, { fit: "inside" })
+    .webp({ quality: LQIP_QUALITY })
+    .toBuffer();
+  const { dominant } = await sharp(rgba.data, { raw }).stats();
+  return {
+    blurHash: encodeBlurHash(rgba),
+    thumbHash: encodeThumbHash(rgba),
+    dataUrl: `data:image/webp;base64,${lqip.toString("base64")}`,
+    dominant: toHex(dominant),
+  };
+}
@@ -0,0 +1,78 @@
+import { isObject, readOptionValues } from "./overrides";
+import type { ParseResult } from "./schema";
+
+// A named set of options, as the page saves and exports it:
+// { "name": "Blog hero", "options": { "format": "avif", "quality": 55, "width": 1600 } }
+export type PresetDocument = {
+  name: string;
+  // Form fields, as readOptionValues turns them into text.
+  options: Record<string, string>;
+};
+
+const MAX_PRESET_LENGTH = 20_000;
+const MAX_PRESET_NAME_LENGTH = 100;
+
+export function parsePresetDocument(raw: string): ParseResult<PresetDocument> {
+  const invalid = (message: string): ParseResult<PresetDocument> => ({
+    ok: false,
+    errors: { preset: message },
+  });
+  if (raw.length > MAX_PRESET_LENGTH) {
+    return invalid(`Must be at most ${MAX_PRESET_LENGTH} characters.`);
+  }
+
+  let document: unknown;
+  try {
+    document = JSON.parse(raw);
+  } catch {
+    return invalid("Must be a preset name or a JSON preset document.");
+  }
+  if (!isObject(document)) return invalid("Must be a JSON object.");
+  const { name } = document;
+  if (
+    typeof name !== "string" ||
+    !name.trim() ||
+    name.trim().length > MAX_PRESET_NAME_LENGTH
+  ) {
+    return invalid(
+      `"name" must be non-empty text of at most ${MAX_PRESET_NAME_LENGTH} characters.`
+    );
+  }
+  const options = readOptionValues(document.options ?? {});
+  if (!options.ok) return invalid(`"options": ${options.error}`);
+  return { ok: true, value: { name: name.trim(), options: options.value } };
+}
+
+// `preset` takes a built-in name, or a preset document as text or as an uploaded JSON
+// file. A document's options fill in whatever fields the request leaves out, and its own
+// `preset` option, if any, becomes the built-in preset.
+export async function applyPresetDocument(
+  formData: FormData
+): Promise<ParseResult<FormData>> {
+  const raw = formData.get("preset");
+  let text: string;
+  if (raw instanceof File) {
+    if (raw.size > MAX_PRESET_LENGTH) {
+      return {
+        ok: false,
+        errors: { preset: `Must be at most ${MAX_PRESET_LENGTH} characters.` },
+      };
+    }
+    text = await raw.text();
+  } else if (raw?.trim().startsWith("{")) {
+    text = raw;
+  } else {
+    return { ok: true, value: formData };
+  }
+
+  const document = parsePresetDocument(text);
+  if (!document.ok) return document;
+  const merged = new FormData();
+  for (const [key, value] of formData) {
+    if (key !== "preset") merged.append(key, value);
+  }
+  for (const [field, value] of Object.entries(document.value.options)) {
+    if (!merged.has(field)) merged.set(field, value);
+  }
+  return { ok: true, value: merged };
+}
@@ -0,0 +1,83 @@
+import sharp from "sharp";
+import { processFile } from "./batch";
+import { planColor } from "./color";
+import { resolveRegion } from "./crop";
+import { detectInput } from "./detect";
+import { encoderOptionsFor, resolveFormat } from "./encode";
+import { planMetadata } from "./metadata";
+import { createOrderedNames } from "./naming";
+import { buildPipeline } from "./pipeline";
+import type { ConvertOptions, FileReport } from "./types";
+import { overlayFor } from "./watermark";
+
+// "encoded" is the output itself, "decoded" the same pixels as a PNG for formats browsers
+// can't show, and "reference" the pipeline output before any encoder touches it.
+export const previewViews = ["encoded", "decoded", "reference"] as const;
+
+export type PreviewView = (typeof previewViews)[number];
+
+export type Preview = {
+  body: Buffer;
+  mime: string;
+  // Left out for the reference, which is never encoded.
+  report?: FileReport;
+};
+
+// Only the first frame is rendered, at the size and in the colour space of the output.
+async function renderReference(
+  buffer: Buffer,
+  inputName: string,
+  options: ConvertOptions
+) {
+  const detected = await detectInput(buffer, inputName);
+  const format = await resolveFormat(detected, options);
+  const region = await resolveRegion(buffer, options);
+  const metadata = await planMetadata(buffer, options.metadata);
+  const encoderOptions = {
+    ...encoderOptionsFor(format, options),
+    region,
+    color: planColor(detected, options.colorSpace, metadata),
+  };
+  const overlay = await overlayFor(buffer, encoderOptions);
+  return buildPipeline(buffer, { ...encoderOptions, overlay })
+    .png({ compressionLevel: 1 })
+    .toBuffer();
+}
+
+// Previews one file as /api/convert would encode it. A responsive set is previewed as
+// its full-size image, and the report is what /api/estimate would list for it.
+export async function renderPreview(
+  buffer: Buffer,
+  file: File,
+  options: ConvertOptions,
+  view: PreviewView
+): Promise<Preview | { error: string }> {
+  if (view === "reference") {
+    try {
+      return {
+        body: await renderReference(buffer, file.name, options),
+        mime: "image/png",
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Failed to render image.";
+      return { error: `${file.name}: ${message}` };
+    }
+  }
+  const {
+    outputs: [output],
+    report,
+  } = await processFile(
+    buffer,
+    file,
+    { ...options, responsive: undefined, placeholders: false },
+    { index: 0, names: createOrderedNames() }
+  );
+  if (!output) return { error: `${report.inputName}: ${report.error}` };
+
+  if (view === "encoded") return { body: output.buffer, mime: output.mime, report };
+  const body = await sharp(output.buffer)
+    .keepIccProfile()
+    .png({ compressionLevel: 1 })
+    .toBuffer();
+  return { body, mime: "image/png", report };
+}
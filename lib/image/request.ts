@@ -0,0 +1,228 @@
+import { checkOutputFormats } from "./codecs";
+import { checkInputPixels, readFiles } from "./guard";
+import {
+  checkFileLimits,
+  checkRequestSize,
+  limitExceeded,
+  type UnpackBudget,
+} from "./limits";
+import { getFiles, parseConvertOptions } from "./options";
+import { applyOverrides, parseOverrides } from "./overrides";
+import { applyPresetDocument } from "./presets";
+import { invalidRequest, type ParseResult } from "./schema";
+import { isZipArchive, SNIFF_BYTES } from "./sniff";
+import type { ConvertOptions, OutputFile } from "./types";
+import { readZip } from "./unzip";
+import { readWatermarkImage } from "./watermark";
+
+export type ConvertRequest = {
+  files: File[];
+  buffers: Buffer[];
+  // One entry per file, after any per-file overrides.
+  fileOptions: ConvertOptions[];
+  // Each file's position in the upload; the images of one ZIP share its position.
+  sources: number[];
+  // Whether any file came out of an uploaded ZIP, which is answered with a ZIP too.
+  unpacked: boolean;
+  // Entries of uploaded ZIPs that aren't images, copied into the output as they are.
+  passThrough: OutputFile[];
+};
+
+type Upload = {
+  files: File[];
+  buffers: Buffer[];
+  sources: number[];
+  unpacked: boolean;
+  passThrough: OutputFile[];
+};
+
+type UploadRequest = {
+  formData: FormData;
+  files: File[];
+};
+
+type RequestResult<T> = { ok: true; value: T } | { ok: false; response: Response };
+
+// The checks every upload route shares, before any file is read into memory.
+async function parseUploadRequest(
+  request: Request
+): Promise<RequestResult<UploadRequest>> {
+  const sizeViolation = checkRequestSize(request.headers.get("content-length"));
+  if (sizeViolation) {
+    return { ok: false, response: limitExceeded(sizeViolation) };
+  }
+
+  const formData = await request.formData();
+  const uploaded = getFiles(formData);
+  if (!uploaded.ok) {
+    return { ok: false, response: invalidRequest(uploaded.errors) };
+  }
+  const files = uploaded.value;
+  if (!files.length) {
+    return {
+      ok: false,
+      response: Response.json({ error: "No files provided." }, { status: 400 }),
+    };
+  }
+  const archives = await Promise.all(
+    files.map(async (file) =>
+      isZipArchive(new Uint8Array(await file.slice(0, SNIFF_BYTES).arrayBuffer()))
+    )
+  );
+  const fileViolation = checkFileLimits(
+    files.map((file, index) => ({
+      name: file.name,
+      size: file.size,
+      archive: archives[index],
+    }))
+  );
+  if (fileViolation) {
+    return { ok: false, response: limitExceeded(fileViolation) };
+  }
+  return { ok: true, value: { formData, files } };
+}
+
+// For routes that only inspect files and take no conversion options.
+export async function readUploadedFiles(
+  request: Request
+): Promise<RequestResult<{ files: File[]; buffers: Buffer[] }>> {
+  const upload = await parseUploadRequest(request);
+  if (!upload.ok) return upload;
+  const input = await readFiles(upload.value.files);
+  if (!input.ok) {
+    return { ok: false, response: limitExceeded(input.violation) };
+  }
+  return { ok: true, value: { files: upload.value.files, buffers: input.buffers } };
+}
+
+// Replaces each uploaded ZIP with the images inside it, named by their paths in it. The
+// archive limits cover everything the request unpacks, and its images count as files.
+async function expandArchives(
+  files: File[],
+  buffers: Buffer[],
+  passThrough: boolean
+): Promise<RequestResult<Upload>> {
+  const used: UnpackBudget = {
+    bytes: 0,
+    files: buffers.filter((buffer) => !isZipArchive(buffer)).length,
+  };
+  const upload: Upload = {
+    files: [],
+    buffers: [],
+    sources: [],
+    unpacked: false,
+    passThrough: [],
+  };
+  for (const [index, file] of files.entries()) {
+    if (!isZipArchive(buffers[index])) {
+      upload.files.push(file);
+      upload.buffers.push(buffers[index]);
+      upload.sources.push(index);
+      continue;
+    }
+
+    let archive: ReturnType<typeof readZip>;
+    try {
+      archive = readZip(buffers[index], file.name, { passThrough, used });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unreadable ZIP archive.";
+      return { ok: false, response: Response.json({ error: message }, { status: 422 }) };
+    }
+    if (!archive.ok) {
+      return { ok: false, response: limitExceeded(archive.violation) };
+    }
+    upload.unpacked = true;
+    for (const entry of archive.entries) {
+      if (entry.image) {
+        const violation = await checkInputPixels(entry.data, entry.path);
+        if (violation) return { ok: false, response: limitExceeded(violation) };
+        // Node's Buffer type allows a SharedArrayBuffer, which an upload's never is.
+        upload.files.push(new File([entry.data as Uint8Array<ArrayBuffer>], entry.path));
+        upload.buffers.push(entry.data);
+        upload.sources.push(index);
+      } else {
+        upload.passThrough.push({
+          name: entry.path,
+          mime: "application/octet-stream",
+          buffer: entry.data,
+        });
+      }
+    }
+  }
+  if (!upload.files.length) {
+    return {
+      ok: false,
+      response: Response.json(
+        { error: "The uploaded archives hold no images." },
+        { status: 400 }
+      ),
+    };
+  }
+  return { ok: true, value: upload };
+}
+
+// Checks each distinct set of options once and reads the watermark image into it.
+async function completeOptions(
+  formData: FormData,
+  fileOptions: ConvertOptions[]
+): Promise<ParseResult<ConvertOptions[]>> {
+  const completed = new Map<ConvertOptions, ConvertOptions>();
+  for (const options of new Set(fileOptions)) {
+    const formatErrors = await checkOutputFormats(options);
+    if (Object.keys(formatErrors).length) return { ok: false, errors: formatErrors };
+    const withWatermark = await readWatermarkImage(formData, options);
+    if (!withWatermark.ok) return withWatermark;
+    completed.set(options, withWatermark.value);
+  }
+  return {
+    ok: true,
+    value: fileOptions.map((options) => completed.get(options) as ConvertOptions),
+  };
+}
+
+export async function parseConvertRequest(
+  request: Request
+): Promise<RequestResult<ConvertRequest>> {
+  const upload = await parseUploadRequest(request);
+  if (!upload.ok) return upload;
+  const { files } = upload.value;
+
+  const preset = await applyPresetDocument(upload.value.formData);
+  if (!preset.ok) {
+    return { ok: false, response: invalidRequest(preset.errors) };
+  }
+  const formData = preset.value;
+  const parsed = parseConvertOptions(formData);
+  if (!parsed.ok) {
+    return { ok: false, response: invalidRequest(parsed.errors) };
+  }
+  const overrides = parseOverrides(formData.get("overrides"));
+  if (!overrides.ok) {
+    return { ok: false, response: invalidRequest(overrides.errors) };
+  }
+
+  const input = await readFiles(files);
+  if (!input.ok) {
+    return { ok: false, response: limitExceeded(input.violation) };
+  }
+  // Overrides match the unpacked images, so archives are opened before they apply.
+  const unpacked = await expandArchives(files, input.buffers, parsed.value.passThrough);
+  if (!unpacked.ok) return unpacked;
+
+  const resolved = applyOverrides(
+    formData,
+    unpacked.value.files,
+    unpacked.value.sources,
+    parsed.value,
+    overrides.value
+  );
+  if (!resolved.ok) {
+    return { ok: false, response: invalidRequest(resolved.errors) };
+  }
+  const fileOptions = await completeOptions(formData, resolved.value);
+  if (!fileOptions.ok) {
+    return { ok: false, response: invalidRequest(fileOptions.errors) };
+  }
+
+  return { ok: true, value: { ...unpacked.value, fileOptions: fileOptions.value } };
+}
@@ -0,0 +1,48 @@
+import { expect, test } from "bun:test";
+import sharp from "sharp";
+import { createNamer, createOrderedNames, DEFAULT_FILENAME } from "./naming";
+import { parseConvertOptions } from "./options";
+import { processResponsiveSet } from "./responsive";
+
+function parse(fields: Record<string, string>) {
+  const formData = new FormData();
+  for (const [key, value] of Object.entries(fields)) formData.set(key, value);
+  return parseConvertOptions(formData);
+}
+
+test("each variant searches for its own target size", async () => {
+  const width = 400;
+  const height = 300;
+  const data = Buffer.alloc(width * height * 3);
+  for (let i = 0; i < data.length; i += 1) data[i] = (i * 97) % 251;
+  const input = await sharp(data, { raw: { width, height, channels: 3 } })
+    .png()
+    .toBuffer();
+
+  const parsed = parse({
+    responsiveWidths: "200,400",
+    responsiveFormats: "webp",
+    targetSizeKB: "4",
+  });
+  if (!parsed.ok || !parsed.value.responsive) throw new Error("Options should parse.");
+  const set = await processResponsiveSet(
+    input,
+    "noise.png",
+    { ...parsed.value, responsive: parsed.value.responsive },
+    createNamer("noise.png", DEFAULT_FILENAME, 0, createOrderedNames().claimFor(0))
+  );
+
+  expect(set.variants).toHaveLength(2);
+  for (const variant of set.variants) {
+    expect(variant.targetMet).toBe(true);
+    expect(variant.buffer.length).toBeLessThanOrEqual(4 * 1024);
+  }
+});
+
+test("best needs responsive formats to choose from", () => {
+  const parsed = parse({ format: "best", responsiveWidths: "200,400" });
+  expect(parsed.ok).toBe(false);
+  expect(
+    parse({ format: "best", responsiveWidths: "200", responsiveFormats: "webp" }).ok
+  ).toBe(true);
+});
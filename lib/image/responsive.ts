@@ -0,0 +1,175 @@
+import { checkGamut, planColor, resolveBitDepth } from "./color";
+import { resolveRegion, sourceSize } from "./crop";
+import { detectInput } from "./detect";
+import { encodeForOptions, encoderOptionsFor, resolveFormat } from "./encode";
+import { encoders } from "./formats";
+import { planMetadata } from "./metadata";
+import type { OutputNamer } from "./naming";
+import { decodeImage } from "./pipeline";
+import { createPlaceholder } from "./placeholder";
+import type {
+  ConvertOptions,
+  EncodableFormat,
+  OutputFile,
+  Placeholder,
+  ProcessedImage,
+  ResponsiveOptions,
+  VariantReport,
+} from "./types";
+
+export type ResponsiveSet = {
+  variants: ProcessedImage[];
+  html: OutputFile;
+  manifest: OutputFile;
+  placeholder?: Placeholder;
+  warnings: string[];
+};
+
+// Formats every browser can show, used for the <img> fallback when the set has one.
+const fallbackFormats: EncodableFormat[] = ["jpeg", "png", "gif"];
+
+function escapeAttribute(value: string) {
+  return value.replace(/&/g, "&amp;").replace(/"/g, "&quot;").replace(/</g, "&lt;");
+}
+
+function srcsetFor(variants: ProcessedImage[]) {
+  return variants.map((variant) => `${variant.name} ${variant.width}w`).join(", ");
+}
+
+export function pictureMarkup(
+  variants: ProcessedImage[],
+  formats: EncodableFormat[],
+  sizes: string
+) {
+  const fallbackFormat =
+    formats.find((format) => fallbackFormats.includes(format)) ?? formats.at(-1);
+  const byFormat = (format: EncodableFormat | undefined) =>
+    variants.filter((variant) => variant.format === format);
+
+  const sources = formats
+    .filter((format) => format !== fallbackFormat)
+    .map(
+      (format) =>
+        `  <source type="${encoders[format].mime}" srcset="${escapeAttribute(srcsetFor(byFormat(format)))}" sizes="${escapeAttribute(sizes)}">`
+    );
+
+  const fallback = byFormat(fallbackFormat);
+  const largest = fallback.at(-1);
+  const img = largest
+    ? `  <img src="${escapeAttribute(largest.name)}" srcset="${escapeAttribute(srcsetFor(fallback))}" sizes="${escapeAttribute(sizes)}" width="${largest.width}" height="${largest.height}" alt="" loading="lazy" decoding="async">`
+    : "";
+
+  return ["<picture>", ...sources, img, "</picture>", ""].filter(Boolean).join("\n");
+}
+
+// Widths above the source collapse to the same output, so they are folded into one.
+function effectiveWidths(widths: number[], sourceWidth: number) {
+  const clamped = widths.map((width) => Math.min(width, sourceWidth));
+  return [...new Set(clamped)].sort((a, b) => a - b);
+}
+
+export async function processResponsiveSet(
+  buffer: Buffer,
+  inputName: string,
+  options: ConvertOptions & { responsive: ResponsiveOptions },
+  namer: OutputNamer
+): Promise<ResponsiveSet> {
+  const { responsive } = options;
+  const detected = await detectInput(buffer, inputName);
+  const formats = responsive.formats.length
+    ? responsive.formats
+    : [await resolveFormat(detected, options)];
+
+  const metadata = await planMetadata(buffer, options.metadata);
+  const color = planColor(detected, options.colorSpace, metadata);
+  // Raw pixels carry no profile and only 8 bits, so only sources that sharp's default
+  // sRGB handling covers are decoded once up front.
+  const source = color || detected.highBitDepth ? buffer : await decodeImage(buffer);
+  const region = await resolveRegion(source, options);
+  const { width: sourceWidth, height: sourceHeight } =
+    region ?? (await sourceSize(source));
+  const widths = effectiveWidths(responsive.widths, sourceWidth);
+
+  const variants: ProcessedImage[] = [];
+  const warnings = [
+    ...detected.warnings,
+    await checkGamut(buffer, inputName, detected, options.colorSpace),
+  ];
+  for (const format of formats) {
+    const depth = await resolveBitDepth(format, detected, options.bitDepth);
+    warnings.push(depth.warning);
+    for (const width of widths) {
+      const encoded = await encodeForOptions(source, format, options, {
+        ...encoderOptionsFor(format, options),
+        region,
+        metadata,
+        color,
+        highBitDepth: depth.highBitDepth,
+        width,
+        height: undefined,
+        fit: "inside",
+      });
+      variants.push({
+        ...encoded,
+        name: await namer.variant(format, encoded),
+        format,
+        mime: encoders[format].mime,
+      });
+    }
+  }
+
+  // Every variant shows the same picture, so the largest one stands in for the set.
+  const largest = variants.at(-1);
+  const placeholder =
+    options.placeholders && largest
+      ? await createPlaceholder(
+          source,
+          { ...encoderOptionsFor(largest.format, options), region, fit: "inside" },
+          largest
+        )
+      : undefined;
+
+  // The markup and manifest sit in the input's folder, so they link to variants by
+  // their names relative to it.
+  const siblings = variants.map((variant) => ({
+    ...variant,
+    name: variant.name.slice(namer.dir.length),
+  }));
+  const manifest = {
+    source: inputName,
+    width: sourceWidth,
+    height: sourceHeight,
+    sizes: responsive.sizes,
+    variants: siblings.map(variantReport),
+    placeholder,
+  };
+
+  return {
+    variants,
+    html: {
+      name: await namer.companion("html"),
+      mime: "text/html",
+      buffer: Buffer.from(pictureMarkup(siblings, formats, responsive.sizes)),
+    },
+    manifest: {
+      name: await namer.companion("json"),
+      mime: "application/json",
+      buffer: Buffer.from(JSON.stringify(manifest, null, 2)),
+    },
+    placeholder,
+    warnings: warnings.filter((warning): warning is string => Boolean(warning)),
+  };
+}
+
+export function variantReport(variant: ProcessedImage): VariantReport {
+  return {
+    name: variant.name,
+    format: variant.format,
+    width: variant.width,
+    height: variant.height,
+    size: variant.buffer.length,
+    quality: variant.quality,
+    ssim: variant.ssim,
+    targetMet: variant.targetMet,
+  };
+}
@@ -0,0 +1,87 @@
+import { expect, test } from "bun:test";
+import { batchConcurrency, createLimiter, runQueue } from "./scheduler";
+
+// Workers stay in flight until released, so the peak is whatever the scheduler allows.
+function heldWorkers() {
+  const held: (() => void)[] = [];
+  let inFlight = 0;
+  let peak = 0;
+  const worker = async (item: number) => {
+    inFlight += 1;
+    peak = Math.max(peak, inFlight);
+    await new Promise<void>((resolve) => held.push(resolve));
+    inFlight -= 1;
+    return item * 2;
+  };
+  const drain = async (...runs: Promise<unknown>[]) => {
+    let settled = false;
+    const all = Promise.all(runs);
+    const settle = () => {
+      settled = true;
+    };
+    all.then(settle, settle);
+    while (!settled) {
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      held.splice(0).forEach((release) => release());
+    }
+    return all;
+  };
+  return { worker, drain, peak: () => peak };
+}
+
+// A fixed limit, so the test means the same on a machine with one core as with many.
+test("a limiter runs at most its limit and hands out slots in order", async () => {
+  const { worker, drain, peak } = heldWorkers();
+  const limit = createLimiter(2);
+  const started: number[] = [];
+  const items = Array.from({ length: 6 }, (_, index) => index);
+  const [results] = await drain(
+    Promise.all(
+      items.map((item) =>
+        limit(() => {
+          started.push(item);
+          return worker(item);
+        })
+      )
+    )
+  );
+  expect(results).toEqual(items.map((item) => item * 2));
+  expect(peak()).toBe(2);
+  expect(started).toEqual(items);
+});
+
+test("a queue's concurrency caps its share of the pool", async () => {
+  const { worker, drain, peak } = heldWorkers();
+  const items = Array.from({ length: 6 }, (_, index) => index);
+  await drain(runQueue(items, worker, { concurrency: 1 }));
+  expect(peak()).toBe(1);
+});
+
+test("parallel queues share the process limit", async () => {
+  const { worker, drain, peak } = heldWorkers();
+  const items = Array.from({ length: 8 }, (_, index) => index);
+  await drain(runQueue(items, worker), runQueue(items, worker), runQueue(items, worker));
+  expect(peak()).toBeGreaterThan(0);
+  expect(peak()).toBeLessThanOrEqual(batchConcurrency);
+});
+
+test("an aborted queue stops taking items", async () => {
+  const { worker, drain } = heldWorkers();
+  const started: number[] = [];
+  const controller = new AbortController();
+  const run = runQueue(
+    [1, 2, 3, 4],
+    (item) => {
+      started.push(item);
+      return worker(item);
+    },
+    { concurrency: 1, signal: controller.signal }
+  );
+  controller.abort();
+  const outcome = await drain(run).then(
+    () => "resolved",
+    (error: unknown) => (error as DOMException).name
+  );
+  expect(outcome).toBe("AbortError");
+  expect(started.length).toBeLessThan(4);
+});
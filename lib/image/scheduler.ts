@@ -0,0 +1,95 @@
+import { availableParallelism } from "node:os";
+
+// sharp runs each pipeline on a libuv worker thread, so running more images at once
+// than the pool has threads only queues them inside sharp with their buffers held in
+// memory. Each of those pipelines already fans out over sharp.concurrency() threads.
+function defaultConcurrency() {
+  const uvThreads = Number(process.env.UV_THREADPOOL_SIZE) || 4;
+  return Math.max(1, Math.min(uvThreads, availableParallelism()));
+}
+
+function readConcurrency(value: string | undefined) {
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : defaultConcurrency();
+}
+
+export const batchConcurrency = readConcurrency(process.env.IMAGE_MAGE_CONCURRENCY);
+
+export type Limiter = <R>(task: () => Promise<R>, signal?: AbortSignal) => Promise<R>;
+
+// Runs at most `limit` tasks at once. A freed slot goes straight to the longest waiter.
+export function createLimiter(limit: number): Limiter {
+  let activeSlots = 0;
+  const waiting: (() => void)[] = [];
+
+  const acquireSlot = (signal?: AbortSignal) => {
+    signal?.throwIfAborted();
+    if (activeSlots < limit) {
+      activeSlots += 1;
+      return Promise.resolve();
+    }
+    return new Promise<void>((resolve, reject) => {
+      const onAbort = () => {
+        waiting.splice(waiting.indexOf(grant), 1);
+        reject(signal?.reason);
+      };
+      const grant = () => {
+        signal?.removeEventListener("abort", onAbort);
+        resolve();
+      };
+      waiting.push(grant);
+      signal?.addEventListener("abort", onAbort, { once: true });
+    });
+  };
+
+  const releaseSlot = () => {
+    const next = waiting.shift();
+    if (next) next();
+    else activeSlots -= 1;
+  };
+
+  return async (task, signal) => {
+    await acquireSlot(signal);
+    try {
+      return await task();
+    } finally {
+      releaseSlot();
+    }
+  };
+}
+
+// One pool for the whole process, so parallel requests and jobs together never run more
+// than batchConcurrency images at once.
+export const runLimited = createLimiter(batchConcurrency);
+
+// `concurrency` caps this call's share of the process pool.
+export async function runQueue<T, R>(
+  items: readonly T[],
+  worker: (item: T, index: number) => Promise<R>,
+  {
+    concurrency = batchConcurrency,
+    signal,
+  }: { concurrency?: number; signal?: AbortSignal } = {}
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  let failed = false;
+
+  const runWorker = async () => {
+    while (!failed && next < items.length) {
+      signal?.throwIfAborted();
+      const index = next;
+      next += 1;
+      try {
+        results[index] = await runLimited(() => worker(items[index], index), signal);
+      } catch (error) {
+        failed = true;
+        throw error;
+      }
+    }
+  };
+
+  const size = Math.max(1, Math.min(concurrency, items.length));
+  await Promise.all(Array.from({ length: size }, runWorker));
+  return results;
+}
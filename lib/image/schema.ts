@@ -0,0 +1,137 @@
+type FieldValue = FormDataEntryValue | null;
+
+export type FieldResult<T> = { ok: true; value: T } | { ok: false; error: string };
+
+export type FieldParser<T> = (raw: FieldValue) => FieldResult<T>;
+
+export type FieldErrors = Record<string, string>;
+
+export type ParseResult<T> = { ok: true; value: T } | { ok: false; errors: FieldErrors };
+
+type Schema<T> = { [K in keyof T]: FieldParser<T[K]> };
+
+function readText(raw: FieldValue) {
+  if (raw === null) return "";
+  if (typeof raw !== "string") return null;
+  return raw.trim();
+}
+
+export function enumField<T extends string>(
+  values: readonly T[],
+  fallback: T
+): FieldParser<T> {
+  return (raw) => {
+    const text = readText(raw);
+    if (text === null) return { ok: false, error: "Must be a text value." };
+    if (!text) return { ok: true, value: fallback };
+    if ((values as readonly string[]).includes(text)) {
+      return { ok: true, value: text as T };
+    }
+    return { ok: false, error: `Must be one of: ${values.join(", ")}.` };
+  };
+}
+
+export function numberField<T extends number | undefined>(options: {
+  min: number;
+  max: number;
+  integer?: boolean;
+  fallback: T;
+}): FieldParser<number | T> {
+  return (raw) => {
+    const text = readText(raw);
+    if (text === null) return { ok: false, error: "Must be a number." };
+    if (!text) return { ok: true, value: options.fallback };
+    const parsed = Number(text);
+    if (!Number.isFinite(parsed)) return { ok: false, error: "Must be a number." };
+    if (options.integer && !Number.isInteger(parsed)) {
+      return { ok: false, error: "Must be a whole number." };
+    }
+    if (parsed < options.min || parsed > options.max) {
+      return {
+        ok: false,
+        error: `Must be between ${options.min} and ${options.max}.`,
+      };
+    }
+    return { ok: true, value: parsed };
+  };
+}
+
+export function booleanField(): FieldParser<boolean> {
+  return (raw) => {
+    const text = readText(raw);
+    if (text === null) return { ok: false, error: "Must be true or false." };
+    if (!text || text === "false" || text === "0") return { ok: true, value: false };
+    if (text === "true" || text === "1") return { ok: true, value: true };
+    return { ok: false, error: "Must be true or false." };
+  };
+}
+
+export function colorField(fallback: string): FieldParser<string> {
+  return (raw) => {
+    const text = readText(raw);
+    if (text === null) return { ok: false, error: "Must be a hex color." };
+    if (!text) return { ok: true, value: fallback };
+    if (/^#(?:[0-9a-f]{3}|[0-9a-f]{4}|[0-9a-f]{6}|[0-9a-f]{8})$/i.test(text)) {
+      return { ok: true, value: text.toLowerCase() };
+    }
+    return { ok: false, error: "Must be a hex color such as #ffffff." };
+  };
+}
+
+export function textField(options: {
+  maxLength: number;
+  fallback: string;
+}): FieldParser<string> {
+  return (raw) => {
+    const text = readText(raw);
+    if (text === null) return { ok: false, error: "Must be a text value." };
+    if (!text) return { ok: true, value: options.fallback };
+    if (text.length > options.maxLength) {
+      return { ok: false, error: `Must be at most ${options.maxLength} characters.` };
+    }
+    return { ok: true, value: text };
+  };
+}
+
+// Comma-separated values, each checked by the item parser.
+export function listField<T>(
+  item: FieldParser<T>,
+  options: { maxItems: number }
+): FieldParser<T[]> {
+  return (raw) => {
+    const text = readText(raw);
+    if (text === null) return { ok: false, error: "Must be a comma-separated list." };
+    const parts = text
+      .split(",")
+      .map((part) => part.trim())
+      .filter(Boolean);
+    if (parts.length > options.maxItems) {
+      return { ok: false, error: `Must have at most ${options.maxItems} entries.` };
+    }
+    const values: T[] = [];
+    for (const part of parts) {
+      const result = item(part);
+      if (!result.ok) return { ok: false, error: `"${part}": ${result.error}` };
+      values.push(result.value);
+    }
+    return { ok: true, value: values };
+  };
+}
+
+export function parseFields<T>(formData: FormData, schema: Schema<T>): ParseResult<T> {
+  const value = {} as T;
+  const errors: FieldErrors = {};
+  for (const key of Object.keys(schema) as (keyof T & string)[]) {
+    const result = schema[key](formData.get(key));
+    if (result.ok) {
+      value[key] = result.value;
+    } else {
+      errors[key] = result.error;
+    }
+  }
+  return Object.keys(errors).length ? { ok: false, errors } : { ok: true, value };
+}
+
+export function invalidRequest(errors: FieldErrors) {
+  return Response.json({ error: "Invalid request.", fields: errors }, { status: 400 });
+}
@@ -0,0 +1,59 @@
+import type { EncodableFormat } from "./types";
+
+// Enough for every signature below, including an ftyp box with a few compatible brands.
+export const SNIFF_BYTES = 64;
+
+const pngSignature = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+const jxlContainer = [
+  0x00, 0x00, 0x00, 0x0c, 0x4a, 0x58, 0x4c, 0x20, 0x0d, 0x0a, 0x87, 0x0a,
+];
+const avifBrands = ["avif", "avis"];
+const heicBrands = ["heic", "heix", "hevc", "hevx", "heim", "heis", "mif1", "msf1"];
+
+function startsWith(bytes: Uint8Array, signature: number[], offset = 0) {
+  return signature.every((value, index) => bytes[offset + index] === value);
+}
+
+function ascii(bytes: Uint8Array, start: number, end: number) {
+  return String.fromCharCode(...bytes.subarray(start, end));
+}
+
+// HEIF containers share one layout; the brands in the ftyp box say which codec is inside.
+function sniffFtyp(bytes: Uint8Array): EncodableFormat | null {
+  const boxSize = Math.min(
+    ((bytes[0] << 24) | (bytes[1] << 16) | (bytes[2] << 8) | bytes[3]) >>> 0,
+    bytes.length
+  );
+  const brands = [ascii(bytes, 8, 12)];
+  for (let offset = 16; offset + 4 <= boxSize; offset += 4) {
+    brands.push(ascii(bytes, offset, offset + 4));
+  }
+  if (brands.some((brand) => avifBrands.includes(brand))) return "avif";
+  if (brands.some((brand) => heicBrands.includes(brand))) return "heic";
+  return null;
+}
+
+// Local file header, or the end record of an empty archive.
+export function isZipArchive(bytes: Uint8Array) {
+  return (
+    startsWith(bytes, [0x50, 0x4b, 0x03, 0x04]) ||
+    startsWith(bytes, [0x50, 0x4b, 0x05, 0x06])
+  );
+}
+
+export function sniffFormat(bytes: Uint8Array): EncodableFormat | null {
+  if (startsWith(bytes, [0xff, 0xd8, 0xff])) return "jpeg";
+  if (startsWith(bytes, pngSignature)) return "png";
+  const head = ascii(bytes, 0, 6);
+  if (head === "GIF87a" || head === "GIF89a") return "gif";
+  if (ascii(bytes, 0, 4) === "RIFF" && ascii(bytes, 8, 12) === "WEBP") return "webp";
+  if (
+    startsWith(bytes, [0x49, 0x49, 0x2a, 0x00]) ||
+    startsWith(bytes, [0x4d, 0x4d, 0x00, 0x2a])
+  ) {
+    return "tiff";
+  }
+  if (startsWith(bytes, [0xff, 0x0a]) || startsWith(bytes, jxlContainer)) return "jxl";
+  if (ascii(bytes, 4, 8) === "ftyp") return sniffFtyp(bytes);
+  return null;
+}
@@ -0,0 +1,98 @@
+import sharp, { type Sharp } from "sharp";
+
+const C1 = (0.01 * 255) ** 2;
+const C2 = (0.03 * 255) ** 2;
+const WINDOW = 8;
+const STRIDE = 4;
+// Larger images are compared at this size; past it the score barely moves but the
+// cost keeps growing with every search step.
+const MAX_COMPARE_PIXELS = 2_000_000;
+
+export type LumaImage = { luma: Float32Array; width: number; height: number };
+
+function toLuma(data: Buffer, width: number, height: number, channels: number) {
+  const luma = new Float32Array(width * height);
+  for (let i = 0, p = 0; i < luma.length; i += 1, p += channels) {
+    luma[i] = 0.299 * data[p] + 0.587 * data[p + 1] + 0.114 * data[p + 2];
+  }
+  return luma;
+}
+
+function compareSize(width: number, height: number) {
+  const pixels = width * height;
+  if (pixels <= MAX_COMPARE_PIXELS) return null;
+  const scale = Math.sqrt(MAX_COMPARE_PIXELS / pixels);
+  return {
+    width: Math.max(1, Math.round(width * scale)),
+    height: Math.max(1, Math.round(height * scale)),
+  };
+}
+
+// Alpha is composited onto `matte` so transparent regions compare the way they display.
+export async function readLuma(pipeline: Sharp, matte = "#ffffff"): Promise<LumaImage> {
+  let { data, info } = await pipeline
+    .flatten({ background: matte })
+    .toColourspace("srgb")
+    .removeAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  const size = compareSize(info.width, info.height);
+  if (size) {
+    ({ data, info } = await sharp(data, { raw: info })
+      .resize(size.width, size.height, { fit: "fill" })
+      .raw()
+      .toBuffer({ resolveWithObject: true }));
+  }
+
+  return {
+    luma: toLuma(data, info.width, info.height, info.channels),
+    width: info.width,
+    height: info.height,
+  };
+}
+
+// Mean SSIM over 8×8 windows on luma, stepping 4px to keep the cost near-linear.
+export function ssim(a: LumaImage, b: LumaImage) {
+  if (a.width !== b.width || a.height !== b.height) {
+    throw new Error("SSIM inputs must have the same dimensions.");
+  }
+  const { width, height } = a;
+  const size = Math.min(WINDOW, width, height);
+  const count = size * size;
+  let total = 0;
+  let windows = 0;
+
+  for (let y = 0; y + size <= height; y += STRIDE) {
+    for (let x = 0; x + size <= width; x += STRIDE) {
+      let sumA = 0;
+      let sumB = 0;
+      let sumAA = 0;
+      let sumBB = 0;
+      let sumAB = 0;
+      for (let wy = 0; wy < size; wy += 1) {
+        let i = (y + wy) * width + x;
+        for (let wx = 0; wx < size; wx += 1, i += 1) {
+          const va = a.luma[i];
+          const vb = b.luma[i];
+          sumA += va;
+          sumB += vb;
+          sumAA += va * va;
+          sumBB += vb * vb;
+          sumAB += va * vb;
+        }
+      }
+      const meanA = sumA / count;
+      const meanB = sumB / count;
+      const varA = sumAA / count - meanA * meanA;
+      const varB = sumBB / count - meanB * meanB;
+      const cov = sumAB / count - meanA * meanB;
+      total +=
+        ((2 * meanA * meanB + C1) * (2 * cov + C2)) /
+        ((meanA * meanA + meanB * meanB + C1) * (varA + varB + C2));
+      windows += 1;
+    }
+  }
+
+  return windows ? total / windows : 1;
+}
@@ -0,0 +1,301 @@
+import type { OverlayOptions } from "sharp";
+
+export const outputFormats = [
+  "auto",
+  "best",
+  "jpeg",
+  "jpg",
+  "png",
+  "webp",
+  "avif",
+  "tiff",
+  "gif",
+  "heic",
+  "heif",
+  "jxl",
+] as const;
+
+export type OutputFormat = (typeof outputFormats)[number];
+
+// "auto" and "best" are resolved per image; everything else names an encoder.
+export type ExplicitFormat = Exclude<OutputFormat, "auto" | "best">;
+
+export type EncodableFormat = Exclude<ExplicitFormat, "jpg" | "heif">;
+
+export const presets = ["tiny", "small", "balanced", "crisp"] as const;
+
+export type Preset = (typeof presets)[number];
+
+export const presetQuality: Record<Preset, number> = {
+  tiny: 45,
+  small: 60,
+  balanced: 75,
+  crisp: 88,
+};
+
+export const fits = ["inside", "cover", "contain"] as const;
+
+export type Fit = (typeof fits)[number];
+
+export const aspectRatios = [
+  "original",
+  "1:1",
+  "4:5",
+  "5:4",
+  "4:3",
+  "3:4",
+  "3:2",
+  "2:3",
+  "16:9",
+  "9:16",
+] as const;
+
+export type AspectRatio = (typeof aspectRatios)[number];
+
+export const cropStrategies = ["center", "attention", "entropy"] as const;
+
+export type CropStrategy = (typeof cropStrategies)[number];
+
+export type CropRect = {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+};
+
+export type CropOptions = {
+  // In pixels of the upright source image.
+  rect?: CropRect;
+  // Width divided by height.
+  aspect?: number;
+  // Fractions of the source width and height.
+  focus?: { x: number; y: number };
+  strategy: CropStrategy;
+};
+
+export const watermarkPositions = [
+  "top-left",
+  "top",
+  "top-right",
+  "left",
+  "center",
+  "right",
+  "bottom-left",
+  "bottom",
+  "bottom-right",
+] as const;
+
+export type WatermarkPosition = (typeof watermarkPositions)[number];
+
+export type WatermarkOptions = {
+  image?: Buffer;
+  text?: string;
+  position: WatermarkPosition;
+  // Fractions of the space left around the mark; when set they replace `position`.
+  offset?: { x: number; y: number };
+  opacity: number;
+  // Width of the mark as a fraction of the output width.
+  scale: number;
+  margin: number;
+  tile: boolean;
+};
+
+// "keep" leaves pixels in the source's own profile and embeds it.
+export const colorSpaces = ["srgb", "p3", "keep"] as const;
+
+export type ColorSpace = (typeof colorSpaces)[number];
+
+export const colorSpaceLabels: Record<ColorSpace, string> = {
+  srgb: "sRGB",
+  p3: "Display P3",
+  keep: "Keep Source Profile",
+};
+
+// Bits per channel; "auto" keeps 16 bits for 16-bit sources where the format allows it.
+export const bitDepths = ["auto", "8", "16"] as const;
+
+export type BitDepth = (typeof bitDepths)[number];
+
+export const bitDepthLabels: Record<BitDepth, string> = {
+  auto: "Auto Depth",
+  "8": "8-bit",
+  "16": "16-bit",
+};
+
+// How one input's pixels reach the output colour space.
+export type ColorPlan = {
+  profile: ColorSpace;
+  // Whether the output profile is embedded, rather than only converted into.
+  attach: boolean;
+  // Whether to work in 16-bit P3 so the source's wide-gamut colours survive.
+  wideGamut: boolean;
+};
+
+export const metadataPolicies = ["strip", "icc", "no-gps", "allowlist", "all"] as const;
+
+export type MetadataPolicy = (typeof metadataPolicies)[number];
+
+export const metadataPolicyLabels: Record<MetadataPolicy, string> = {
+  strip: "Strip All",
+  icc: "Keep Color Profile",
+  "no-gps": "Keep All but Location",
+  allowlist: "Keep Listed Tags",
+  all: "Keep Everything",
+};
+
+export type MetadataOptions = {
+  policy: MetadataPolicy;
+  // EXIF tag names such as "Copyright", or XMP properties such as "dc:rights".
+  allow: string[];
+  copyright?: string;
+  artist?: string;
+};
+
+// What a metadata policy works out to for one input.
+export type MetadataPlan = {
+  keepAll: boolean;
+  icc: boolean;
+  exif?: Record<string, Record<string, string>>;
+  xmp?: string;
+};
+
+export type ConvertOptions = {
+  format: OutputFormat;
+  quality: number;
+  targetSizeKB: number;
+  targetSsim: number;
+  width?: number;
+  height?: number;
+  fit: Fit;
+  crop: CropOptions;
+  metadata: MetadataOptions;
+  colorSpace: ColorSpace;
+  bitDepth: BitDepth;
+  flatten: boolean;
+  background: string;
+  lossless: boolean;
+  progressive: boolean;
+  placeholders: boolean;
+  // Copy entries of uploaded ZIPs that aren't images into the output unchanged.
+  passThrough: boolean;
+  // Output name without extension; see filenameTokens in naming.ts.
+  filename: string;
+  animation: AnimationOptions;
+  watermark?: WatermarkOptions;
+  responsive?: ResponsiveOptions;
+};
+
+export type AnimationOptions = {
+  keep: boolean;
+  frameStep: number;
+  maxFps: number;
+};
+
+export type ResponsiveOptions = {
+  widths: number[];
+  formats: EncodableFormat[];
+  sizes: string;
+};
+
+export type PipelineOptions = {
+  // Resolved per image from CropOptions and cut out before resizing.
+  region?: CropRect;
+  width?: number;
+  height?: number;
+  fit?: Fit;
+  metadata?: MetadataPlan;
+  color?: ColorPlan;
+  background?: string;
+  // Rendered for the output size and composited after resizing.
+  overlay?: OverlayOptions[];
+  animated?: boolean;
+};
+
+export type EncoderOptions = PipelineOptions & {
+  lossless: boolean;
+  progressive: boolean;
+  chromaSubsampling?: "4:2:0" | "4:4:4";
+  // 16 bits for PNG and TIFF, 12 for AVIF.
+  highBitDepth?: boolean;
+  delay?: number[];
+  loop?: number;
+  watermark?: WatermarkOptions;
+};
+
+export type OutputFile = {
+  name: string;
+  mime: string;
+  buffer: Buffer;
+};
+
+export type EncodedImage = {
+  buffer: Buffer;
+  width: number;
+  height: number;
+  frames: number;
+  quality: number;
+  ssim?: number;
+  targetMet?: boolean;
+};
+
+// Stand-ins shown while the real image loads, such as next/image's blurDataURL.
+export type Placeholder = {
+  blurHash: string;
+  // Base64 of the ThumbHash bytes.
+  thumbHash: string;
+  // A tiny WebP of the output.
+  dataUrl: string;
+  dominant: string;
+};
+
+export type FormatCandidate = {
+  format: EncodableFormat;
+  size: number;
+  quality: number;
+  ssim?: number;
+  targetMet?: boolean;
+};
+
+export type FormatSelection = {
+  reason: string;
+  candidates: FormatCandidate[];
+};
+
+export type ProcessedImage = OutputFile &
+  EncodedImage & {
+    format: EncodableFormat;
+    sourceFrames?: number;
+    selection?: FormatSelection;
+    placeholder?: Placeholder;
+    warnings?: string[];
+  };
+
+export type VariantReport = {
+  name: string;
+  format: EncodableFormat;
+  width: number;
+  height: number;
+  size: number;
+  // Each variant searches on its own when a size or SSIM target is set.
+  quality: number;
+  ssim?: number;
+  targetMet?: boolean;
+};
+
+export type FileReport = {
+  inputName: string;
+  inputSize: number;
+  name?: string;
+  outputSize?: number;
+  format?: EncodableFormat;
+  quality?: number;
+  ssim?: number;
+  targetMet?: boolean;
+  frames?: number;
+  sourceFrames?: number;
+  variants?: VariantReport[];
+  selection?: FormatSelection;
+  placeholder?: Placeholder;
+  warnings?: string[];
+  error?: string;
+};
@@ -0,0 +1,54 @@
+import { expect, test } from "bun:test";
+import sharp from "sharp";
+import { createZipStream } from "./archive";
+import { uploadLimits } from "./limits";
+import { readZip } from "./unzip";
+
+async function zipOf(entries: Record<string, Buffer | string>) {
+  const zip = createZipStream();
+  for (const [name, data] of Object.entries(entries)) zip.append(name, data);
+  const [data] = await Promise.all([
+    new Response(zip.body).arrayBuffer(),
+    zip.finalize(),
+  ]);
+  return Buffer.from(data);
+}
+
+function dot() {
+  return sharp({ create: { width: 4, height: 4, channels: 3, background: "#000" } })
+    .png()
+    .toBuffer();
+}
+
+test("entries that aren't images are skipped unless they pass through", async () => {
+  const archive = await zipOf({ "a.png": await dot(), "notes.txt": "x".repeat(5000) });
+  const used = { bytes: 0, files: 0 };
+  const read = readZip(archive, "album.zip", { passThrough: false, used });
+  if (!read.ok) throw new Error("Archive should unpack.");
+  expect(read.entries.map((entry) => [entry.path, entry.image])).toEqual([
+    ["a.png", true],
+  ]);
+  expect(used).toEqual({ bytes: read.entries[0].data.length, files: 1 });
+
+  const all = readZip(archive, "album.zip", {
+    passThrough: true,
+    used: { bytes: 0, files: 0 },
+  });
+  expect(all.ok && all.entries.map((entry) => entry.image)).toEqual([true, false]);
+});
+
+test("one budget covers every archive in a request", async () => {
+  const archive = await zipOf({ "a.png": await dot() });
+  const used = { bytes: uploadLimits.maxArchiveBytes - 10, files: 0 };
+  const read = readZip(archive, "album.zip", { passThrough: false, used });
+  expect(read.ok || read.violation.limit).toBe("maxArchiveBytes");
+});
+
+test("unpacked images count toward the file limit", async () => {
+  const archive = await zipOf({ "a.png": await dot(), "b.png": await dot() });
+  const read = readZip(archive, "album.zip", {
+    passThrough: false,
+    used: { bytes: 0, files: uploadLimits.maxFiles - 1 },
+  });
+  expect(read.ok || read.violation.limit).toBe("maxFiles");
+});
@@ -0,0 +1,190 @@
+import { constants, inflateRawSync } from "node:zlib";
+import {
+  checkArchiveEntries,
+  checkArchiveSize,
+  type LimitViolation,
+  type UnpackBudget,
+} from "./limits";
+import { cleanSegments } from "./naming";
+import { SNIFF_BYTES, sniffFormat } from "./sniff";
+
+export type ZipEntry = {
+  // Cleaned of "..", absolute prefixes and characters file systems reject.
+  path: string;
+  data: Buffer;
+  image: boolean;
+};
+
+export type ZipOptions = {
+  // Whether entries that aren't images are unpacked too, rather than skipped.
+  passThrough: boolean;
+  used: UnpackBudget;
+};
+
+type CentralEntry = {
+  path: string;
+  method: number;
+  compressedSize: number;
+  size: number;
+  localOffset: number;
+};
+
+const END_SIGNATURE = 0x06054b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+const END_RECORD_BYTES = 22;
+const MAX_COMMENT_BYTES = 0xffff;
+const STORED = 0;
+const DEFLATED = 8;
+const FLAG_ENCRYPTED = 0x1;
+const FLAG_UTF8 = 0x800;
+// Enough compressed input to inflate the first SNIFF_BYTES of any deflate stream.
+const PEEK_INPUT_BYTES = 1024;
+
+// The end record sits after the central directory, followed only by an optional comment.
+function findEndRecord(buffer: Buffer) {
+  const last = buffer.length - END_RECORD_BYTES;
+  const first = Math.max(0, last - MAX_COMMENT_BYTES);
+  for (let offset = last; offset >= first; offset -= 1) {
+    if (buffer.readUInt32LE(offset) === END_SIGNATURE) return offset;
+  }
+  throw new Error("is not a readable ZIP archive.");
+}
+
+// Only the central directory is trusted for names and sizes; local headers are read just
+// far enough to find where each entry's data starts.
+function readCentralDirectory(buffer: Buffer): CentralEntry[] {
+  const end = findEndRecord(buffer);
+  const count = buffer.readUInt16LE(end + 10);
+  const directoryOffset = buffer.readUInt32LE(end + 16);
+  if (count === 0xffff || directoryOffset === 0xffffffff) {
+    throw new Error("uses ZIP64, which isn't supported.");
+  }
+
+  const entries: CentralEntry[] = [];
+  let offset = directoryOffset;
+  for (let index = 0; index < count; index += 1) {
+    if (
+      offset + 46 > buffer.length ||
+      buffer.readUInt32LE(offset) !== CENTRAL_SIGNATURE
+    ) {
+      throw new Error("has a damaged central directory.");
+    }
+    const flags = buffer.readUInt16LE(offset + 8);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const name = buffer.toString(
+      flags & FLAG_UTF8 ? "utf8" : "latin1",
+      offset + 46,
+      offset + 46 + nameLength
+    );
+    const entry = {
+      path: cleanSegments(name).join("/"),
+      method: buffer.readUInt16LE(offset + 10),
+      compressedSize: buffer.readUInt32LE(offset + 20),
+      size: buffer.readUInt32LE(offset + 24),
+      localOffset: buffer.readUInt32LE(offset + 42),
+    };
+    offset +=
+      46 +
+      nameLength +
+      buffer.readUInt16LE(offset + 30) +
+      buffer.readUInt16LE(offset + 32);
+
+    // Folders and the resource forks macOS adds carry nothing to convert.
+    if (name.endsWith("/") || name.startsWith("__MACOSX/") || !entry.path) continue;
+    if (flags & FLAG_ENCRYPTED) throw new Error(`has an encrypted entry, ${entry.path}.`);
+    if (entry.method !== STORED && entry.method !== DEFLATED) {
+      throw new Error(`compresses ${entry.path} with an unsupported method.`);
+    }
+    entries.push(entry);
+  }
+  return entries;
+}
+
+function dataStart(buffer: Buffer, entry: CentralEntry) {
+  const header = entry.localOffset;
+  if (header + 30 > buffer.length || buffer.readUInt32LE(header) !== LOCAL_SIGNATURE) {
+    throw new Error(`has a damaged entry, ${entry.path}.`);
+  }
+  return (
+    header + 30 + buffer.readUInt16LE(header + 26) + buffer.readUInt16LE(header + 28)
+  );
+}
+
+// Inflates just the start of an entry, so entries that aren't images can be skipped
+// without unpacking them.
+function isImageEntry(buffer: Buffer, entry: CentralEntry) {
+  const start = dataStart(buffer, entry);
+  const raw = buffer.subarray(
+    start,
+    start + Math.min(entry.compressedSize, PEEK_INPUT_BYTES)
+  );
+  try {
+    const head =
+      entry.method === STORED
+        ? raw
+        : inflateRawSync(raw, { finishFlush: constants.Z_SYNC_FLUSH });
+    return sniffFormat(head.subarray(0, SNIFF_BYTES)) !== null;
+  } catch {
+    return false;
+  }
+}
+
+function readEntry(buffer: Buffer, entry: CentralEntry, image: boolean): ZipEntry {
+  const start = dataStart(buffer, entry);
+  const raw = buffer.subarray(start, start + entry.compressedSize);
+  let data: Buffer;
+  try {
+    // The output cap stops an entry that lies about its size from inflating past it.
+    data =
+      entry.method === STORED
+        ? raw
+        : inflateRawSync(raw, { maxOutputLength: Math.max(1, entry.size) });
+  } catch (error) {
+    throw new Error(
+      error instanceof RangeError
+        ? `has an entry larger than it declares, ${entry.path}.`
+        : `has a damaged entry, ${entry.path}.`
+    );
+  }
+  if (data.length !== entry.size) {
+    throw new Error(`has a damaged entry, ${entry.path}.`);
+  }
+  return { path: entry.path, data, image };
+}
+
+// Sizes are checked against the limits from the central directory before anything is
+// inflated, so a zip bomb is turned away without being unpacked. `used` carries what
+// the request's earlier archives unpacked, and the sizes of this one are added to it.
+export function readZip(
+  buffer: Buffer,
+  name: string,
+  { passThrough, used }: ZipOptions
+): { ok: true; entries: ZipEntry[] } | { ok: false; violation: LimitViolation } {
+  try {
+    const entries = readCentralDirectory(buffer);
+    const countViolation = checkArchiveEntries(name, entries.length);
+    if (countViolation) return { ok: false, violation: countViolation };
+
+    const kept = entries.flatMap((entry) => {
+      const image = isImageEntry(buffer, entry);
+      return image || passThrough ? [{ entry, image }] : [];
+    });
+    const images = kept.filter(({ image }) => image).length;
+    const violation = checkArchiveSize(
+      name,
+      kept.map(({ entry }) => entry),
+      images,
+      used
+    );
+    if (violation) return { ok: false, violation };
+    used.bytes += kept.reduce((sum, { entry }) => sum + entry.size, 0);
+    used.files += images;
+    return {
+      ok: true,
+      entries: kept.map(({ entry, image }) => readEntry(buffer, entry, image)),
+    };
+  } catch (error) {
+    throw new Error(`${name} ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
@@ -0,0 +1,98 @@
+import { expect, test } from "bun:test";
+import sharp from "sharp";
+import { processImage } from "./encode";
+import { createNamer, createOrderedNames, DEFAULT_FILENAME } from "./naming";
+import { parseConvertOptions } from "./options";
+import type { WatermarkOptions } from "./types";
+
+const frameWidth = 80;
+const frameHeight = 60;
+const frames = 3;
+
+// Frames differ slightly, since the GIF encoder folds identical frames together.
+async function animation() {
+  const shades = Array.from({ length: frames }, (_, frame) => frame * 16);
+  const images = await Promise.all(
+    shades.map((shade) =>
+      sharp({
+        create: {
+          width: frameWidth,
+          height: frameHeight,
+          channels: 3,
+          background: { r: shade, g: shade, b: shade },
+        },
+      })
+        .png()
+        .toBuffer()
+    )
+  );
+  return sharp(images, { join: { animated: true } })
+    .gif()
+    .toBuffer();
+}
+
+async function mark() {
+  return sharp({ create: { width: 20, height: 20, channels: 3, background: "#fff" } })
+    .png()
+    .toBuffer();
+}
+
+function convert(input: Buffer, watermark: WatermarkOptions) {
+  const formData = new FormData();
+  formData.set("format", "webp");
+  formData.set("lossless", "true");
+  const parsed = parseConvertOptions(formData);
+  if (!parsed.ok) throw new Error(JSON.stringify(parsed.errors));
+  return processImage(
+    input,
+    "loop.gif",
+    { ...parsed.value, watermark },
+    createNamer("loop.gif", DEFAULT_FILENAME, 0, createOrderedNames().claimFor(0))
+  );
+}
+
+// Whether the pixel at (x, y) is lit by the white mark, for every frame of the strip.
+async function markedFrames(buffer: Buffer, x: number, y: number) {
+  const { data, info } = await sharp(buffer, { pages: -1 })
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  return Array.from(
+    { length: frames },
+    (_, frame) => data[((frame * frameHeight + y) * info.width + x) * info.channels] > 200
+  );
+}
+
+test("every frame of an animation is marked", async () => {
+  const output = await convert(await animation(), {
+    image: await mark(),
+    position: "bottom-right",
+    opacity: 1,
+    scale: 0.25,
+    margin: 0,
+    tile: false,
+  });
+  const metadata = await sharp(output.buffer).metadata();
+  expect(metadata.pages).toBe(frames);
+  expect(await markedFrames(output.buffer, frameWidth - 2, frameHeight - 2)).toEqual(
+    Array(frames).fill(true)
+  );
+  expect(await markedFrames(output.buffer, 2, 2)).toEqual(Array(frames).fill(false));
+});
+
+test("a different watermark on the same input renders afresh", async () => {
+  const input = await animation();
+  const watermark: WatermarkOptions = {
+    image: await mark(),
+    position: "bottom-right",
+    opacity: 1,
+    scale: 0.25,
+    margin: 0,
+    tile: false,
+  };
+  await convert(input, watermark);
+  const moved = await convert(input, { ...watermark, position: "top-left" });
+  expect(await markedFrames(moved.buffer, 2, 2)).toEqual(Array(frames).fill(true));
+  expect(await markedFrames(moved.buffer, frameWidth - 2, frameHeight - 2)).toEqual(
+    Array(frames).fill(false)
+  );
+});
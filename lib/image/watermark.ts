@@ -0,0 +1,218 @@
+import sharp, { type Gravity, type OverlayOptions } from "sharp";
+import { detectInput } from "./detect";
+import { fileToBuffer } from "./guard";
+import { uploadLimits } from "./limits";
+import { buildPipeline, type ImageInput } from "./pipeline";
+import type { FieldErrors, ParseResult } from "./schema";
+import type {
+  ConvertOptions,
+  EncoderOptions,
+  WatermarkOptions,
+  WatermarkPosition,
+} from "./types";
+
+type Size = { width: number; height: number };
+
+type Mark = Size & { data: Buffer };
+
+const gravities: Record<WatermarkPosition, Gravity> = {
+  "top-left": "northwest",
+  top: "north",
+  "top-right": "northeast",
+  left: "west",
+  center: "centre",
+  right: "east",
+  "bottom-left": "southwest",
+  bottom: "south",
+  "bottom-right": "southeast",
+};
+
+// Text is rendered large and scaled down like a logo, so it stays crisp at any size.
+const TEXT_DPI = 300;
+
+function escapeMarkup(text: string) {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+function markSource(watermark: WatermarkOptions) {
+  if (watermark.image) {
+    return sharp(watermark.image, { limitInputPixels: uploadLimits.maxInputPixels });
+  }
+  return sharp({
+    text: {
+      text: `<span foreground="white">${escapeMarkup(watermark.text ?? "")}</span>`,
+      font: "sans bold",
+      dpi: TEXT_DPI,
+      rgba: true,
+    },
+  });
+}
+
+async function renderMark(watermark: WatermarkOptions, size: Size): Promise<Mark> {
+  const room = {
+    width: Math.max(1, size.width - 2 * watermark.margin),
+    height: Math.max(1, size.height - 2 * watermark.margin),
+  };
+  const { data, info } = await markSource(watermark)
+    .rotate()
+    .resize({
+      width: Math.min(room.width, Math.max(1, Math.round(size.width * watermark.scale))),
+      height: room.height,
+      fit: "inside",
+    })
+    .ensureAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  for (let i = 3; i < data.length; i += 4) {
+    data[i] = Math.round(data[i] * watermark.opacity);
+  }
+  return { data, width: info.width, height: info.height };
+}
+
+// Surrounds the mark with transparent margin, which spaces tiles and insets grid positions.
+async function padMark(mark: Mark, margin: number, size: Size): Promise<Mark> {
+  const x = Math.min(margin, Math.floor((size.width - mark.width) / 2));
+  const y = Math.min(margin, Math.floor((size.height - mark.height) / 2));
+  if (x <= 0 && y <= 0) return mark;
+  const { data, info } = await sharp(mark.data, {
+    raw: { width: mark.width, height: mark.height, channels: 4 },
+  })
+    .extend({
+      top: Math.max(0, y),
+      bottom: Math.max(0, y),
+      left: Math.max(0, x),
+      right: Math.max(0, x),
+      background: { r: 0, g: 0, b: 0, alpha: 0 },
+    })
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  return { data, width: info.width, height: info.height };
+}
+
+export async function renderOverlay(
+  watermark: WatermarkOptions,
+  size: Size
+): Promise<OverlayOptions[]> {
+  const mark = await renderMark(watermark, size);
+  const input = (item: Mark) => ({
+    input: item.data,
+    raw: { width: item.width, height: item.height, channels: 4 as const },
+  });
+
+  if (watermark.offset) {
+    return [
+      {
+        ...input(mark),
+        left: Math.round(watermark.offset.x * (size.width - mark.width)),
+        top: Math.round(watermark.offset.y * (size.height - mark.height)),
+      },
+    ];
+  }
+  const padded = await padMark(mark, watermark.margin, size);
+  if (watermark.tile) {
+    return [{ ...input(padded), tile: true, gravity: "northwest" }];
+  }
+  return [{ ...input(padded), gravity: gravities[watermark.position] }];
+}
+
+// Output dimensions follow sharp's resize rules, so they are measured rather than predicted.
+async function measure(
+  input: ImageInput,
+  options: EncoderOptions
+): Promise<Size & { frames: number }> {
+  const { info } = await buildPipeline(input, { ...options, overlay: undefined })
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  const height = info.pageHeight ?? info.height;
+  return { width: info.width, height, frames: Math.round(info.height / height) };
+}
+
+// Animations are composited as one strip of stacked frames, where gravity and tiling
+// would place the mark on the strip as a whole. The overlay is drawn onto a single
+// transparent frame instead, which is then laid over every frame.
+async function repeatPerFrame(
+  overlay: OverlayOptions[],
+  size: Size,
+  frames: number
+): Promise<OverlayOptions[]> {
+  if (frames <= 1) return overlay;
+  const raw = { width: size.width, height: size.height, channels: 4 as const };
+  const frame = await sharp({
+    create: { ...raw, background: { r: 0, g: 0, b: 0, alpha: 0 } },
+  })
+    .composite(overlay)
+    .raw()
+    .toBuffer();
+  return Array.from({ length: frames }, (_, index) => ({
+    input: frame,
+    raw,
+    left: 0,
+    top: index * size.height,
+  }));
+}
+
+// Quality searches encode the same geometry many times, so the overlay is cached per
+// input, watermark and geometry. Files with their own options carry their own watermark.
+const overlays = new WeakMap<
+  object,
+  WeakMap<WatermarkOptions, Map<string, Promise<OverlayOptions[]>>>
+>();
+
+function cacheFor(input: ImageInput, watermark: WatermarkOptions) {
+  const inputKey = Buffer.isBuffer(input) ? input : input.data;
+  const byWatermark = overlays.get(inputKey) ?? new WeakMap();
+  overlays.set(inputKey, byWatermark);
+  const cache = byWatermark.get(watermark) ?? new Map();
+  byWatermark.set(watermark, cache);
+  return cache;
+}
+
+export function overlayFor(
+  input: ImageInput,
+  options: EncoderOptions
+): Promise<OverlayOptions[] | undefined> {
+  const { watermark } = options;
+  if (!watermark) return Promise.resolve(undefined);
+
+  const key = JSON.stringify([
+    options.region,
+    options.width,
+    options.height,
+    options.fit,
+    options.animated,
+  ]);
+  const cache = cacheFor(input, watermark);
+  let overlay = cache.get(key);
+  if (!overlay) {
+    overlay = measure(input, options).then(async ({ frames, ...size }) =>
+      repeatPerFrame(await renderOverlay(watermark, size), size, frames)
+    );
+    cache.set(key, overlay);
+  }
+  return overlay;
+}
+
+// The watermark image arrives as a file next to the inputs, so it is read and checked
+// once the scalar options have been parsed.
+export async function readWatermarkImage(
+  formData: FormData,
+  options: ConvertOptions
+): Promise<ParseResult<ConvertOptions>> {
+  const file = formData.get("watermark");
+  if (!options.watermark || !(file instanceof File)) return { ok: true, value: options };
+
+  const errors: FieldErrors = {};
+  if (file.size > uploadLimits.maxFileBytes) {
+    errors.watermark = "The watermark image is too large.";
+    return { ok: false, errors };
+  }
+  const image = await fileToBuffer(file);
+  try {
+    await detectInput(image, file.name || "watermark");
+  } catch (error) {
+    errors.watermark =
+      error instanceof Error ? error.message : "Unreadable watermark image.";
+    return { ok: false, errors };
+  }
+  return { ok: true, value: { ...options, watermark: { ...options.watermark, image } } };
+}
@@ -0,0 +1,33 @@
+import { expect, test } from "bun:test";
+import { createMemoryJobStore } from "./memory-store";
+import type { Job, JobStatus } from "./types";
+
+function job(id: string, status: JobStatus, bytes: number): Job {
+  return {
+    id,
+    status,
+    createdAt: Date.now(),
+    fileStates: [],
+    sources: [],
+    reports: [],
+    outputs: [{ name: `${id}.webp`, mime: "image/webp", buffer: Buffer.alloc(bytes) }],
+    passedThrough: [],
+  };
+}
+
+test("the oldest finished jobs give up their outputs past the byte cap", async () => {
+  const store = createMemoryJobStore(60_000, 250);
+  await store.create(job("oldest", "done", 100));
+  await store.create(job("running", "running", 100));
+  await store.create(job("newest", "done", 100));
+  await store.update("newest", () => {});
+
+  const [oldest, running, newest] = await Promise.all(
+    ["oldest", "running", "newest"].map((id) => store.get(id))
+  );
+  expect(oldest?.released).toBe(true);
+  expect(oldest?.outputs).toEqual([]);
+  expect(running?.outputs).toHaveLength(1);
+  expect(newest?.released).toBeUndefined();
+  expect(newest?.outputs).toHaveLength(1);
+});
@@ -0,0 +1,90 @@
+import {
+  isFinished,
+  releaseOutputs,
+  type Job,
+  type JobEvent,
+  type JobStore,
+} from "./types";
+
+const JOB_TTL_MS = 30 * 60 * 1000;
+const SWEEP_INTERVAL_MS = 60 * 1000;
+const MB = 1024 * 1024;
+
+function readMaxBytes(value: string | undefined) {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed * MB : 512 * MB;
+}
+
+// Finished jobs hold their outputs until they are downloaded, so this caps how much
+// memory they may keep between them.
+const MAX_RETAINED_BYTES = readMaxBytes(process.env.IMAGE_MAGE_JOB_MEMORY_MB);
+
+function outputBytes(job: Job) {
+  return job.outputs.reduce((sum, output) => sum + output.buffer.length, 0);
+}
+
+export function createMemoryJobStore(
+  ttl = JOB_TTL_MS,
+  maxBytes = MAX_RETAINED_BYTES
+): JobStore {
+  const jobs = new Map<string, Job>();
+  const listeners = new Map<string, Set<(event: JobEvent) => void>>();
+
+  const sweep = () => {
+    const cutoff = Date.now() - ttl;
+    for (const [id, job] of jobs) {
+      if (job.createdAt < cutoff) {
+        jobs.delete(id);
+        listeners.delete(id);
+      }
+    }
+  };
+  // unref so the timer never keeps the process alive on its own.
+  setInterval(sweep, Math.min(ttl, SWEEP_INTERVAL_MS)).unref();
+
+  // Jobs are kept in the order they were created, so the oldest finished ones give up
+  // their outputs first. Running jobs keep theirs, since they are still being built.
+  const evict = () => {
+    let total = 0;
+    for (const job of jobs.values()) total += outputBytes(job);
+    for (const job of jobs.values()) {
+      if (total <= maxBytes) return;
+      if (!isFinished(job.status) || job.released) continue;
+      total -= outputBytes(job);
+      releaseOutputs(job);
+    }
+  };
+
+  return {
+    async create(job) {
+      sweep();
+      jobs.set(job.id, job);
+    },
+    async get(id) {
+      return jobs.get(id);
+    },
+    async update(id, update) {
+      const job = jobs.get(id);
+      if (job) {
+        update(job);
+        evict();
+      }
+      return job;
+    },
+    async delete(id) {
+      jobs.delete(id);
+      listeners.delete(id);
+    },
+    publish(id, event) {
+      listeners.get(id)?.forEach((listener) => listener(event));
+    },
+    subscribe(id, listener) {
+      const set = listeners.get(id) ?? new Set();
+      set.add(listener);
+      listeners.set(id, set);
+      return () => {
+        set.delete(listener);
+      };
+    },
+  };
+}
@@ -0,0 +1,102 @@
+import { randomUUID } from "node:crypto";
+import { processFile } from "@/lib/image/batch";
+import { createNameRegistry, createOrderedNames } from "@/lib/image/naming";
+import type { ConvertRequest } from "@/lib/image/request";
+import { runQueue } from "@/lib/image/scheduler";
+import { getJobStore } from "./store";
+import { fileEvent, isFinished, releaseOutputs, type Job, type JobStatus } from "./types";
+
+const controllers = new Map<string, AbortController>();
+
+async function setStatus(id: string, status: JobStatus, error?: string) {
+  const store = getJobStore();
+  const job = await store.update(id, (current) => {
+    if (isFinished(current.status)) return;
+    current.status = status;
+    current.error = error;
+  });
+  if (job?.status === status) {
+    store.publish(id, { type: "status", status, error });
+  }
+}
+
+async function run(
+  id: string,
+  { files, buffers, fileOptions, passThrough }: ConvertRequest
+) {
+  const store = getJobStore();
+  const controller = new AbortController();
+  controllers.set(id, controller);
+  await setStatus(id, "running");
+  const claimName = createNameRegistry();
+  const names = createOrderedNames(claimName);
+  await store.update(id, (job) => {
+    if (job.released) return;
+    for (const entry of passThrough) {
+      const name = claimName(entry.name);
+      job.outputs.push({ ...entry, name });
+      job.passedThrough.push(name);
+    }
+  });
+
+  try {
+    await runQueue(
+      files,
+      async (file, index) => {
+        const started = await store.update(id, (job) => {
+          job.fileStates[index] = "processing";
+        });
+        if (started) store.publish(id, fileEvent(started, index));
+
+        const result = await processFile(buffers[index], file, fileOptions[index], {
+          index,
+          names,
+        });
+        const state = result.report.error ? "failed" : "done";
+        const finished = await store.update(id, (job) => {
+          job.fileStates[index] = state;
+          job.reports[index] = result.report;
+          if (!job.released) job.outputs.push(...result.outputs);
+        });
+        if (finished) store.publish(id, fileEvent(finished, index));
+      },
+      { signal: controller.signal }
+    );
+    await setStatus(id, "done");
+  } catch (error) {
+    if (controller.signal.aborted) return;
+    console.error(`job ${id} failed`, error);
+    await setStatus(
+      id,
+      "failed",
+      error instanceof Error ? error.message : "Failed to process images."
+    );
+  } finally {
+    controllers.delete(id);
+  }
+}
+
+export async function startJob(request: ConvertRequest) {
+  const job: Job = {
+    id: randomUUID(),
+    status: "queued",
+    createdAt: Date.now(),
+    fileStates: request.files.map(() => "pending"),
+    sources: request.sources,
+    reports: request.files.map(() => null),
+    outputs: [],
+    passedThrough: [],
+    unpacked: request.unpacked,
+  };
+  await getJobStore().create(job);
+  void run(job.id, request);
+  return job;
+}
+
+export async function cancelJob(id: string) {
+  controllers.get(id)?.abort();
+  await setStatus(id, "cancelled");
+  return getJobStore().update(id, (job) => {
+    if (job.status === "cancelled") releaseOutputs(job);
+  });
+}
@@ -0,0 +1,14 @@
+import { createMemoryJobStore } from "./memory-store";
+import type { JobStore } from "./types";
+
+// Kept on globalThis so dev-mode reloads don't drop running jobs.
+const globalForJobs = globalThis as typeof globalThis & { imageMageJobStore?: JobStore };
+
+export function getJobStore() {
+  globalForJobs.imageMageJobStore ??= createMemoryJobStore();
+  return globalForJobs.imageMageJobStore;
+}
+
+export function setJobStore(store: JobStore) {
+  globalForJobs.imageMageJobStore = store;
+}
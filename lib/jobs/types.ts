@@ -0,0 +1,91 @@
+import type { FileReport, OutputFile } from "@/lib/image/types";
+
+export type JobStatus = "queued" | "running" | "done" | "failed" | "cancelled";
+
+export type FileState = "pending" | "processing" | "done" | "failed";
+
+export type Job = {
+  id: string;
+  status: JobStatus;
+  createdAt: number;
+  fileStates: FileState[];
+  // Each file's position in the upload; the images of one ZIP share its position.
+  sources: number[];
+  reports: (FileReport | null)[];
+  outputs: OutputFile[];
+  // Set once the outputs are freed: after the result is fetched, the job is cancelled or
+  // the store needs the memory.
+  released?: boolean;
+  // Names of the ZIP entries copied through unchanged, as report.json lists them.
+  passedThrough: string[];
+  // Jobs that unpacked a ZIP always return a ZIP.
+  unpacked?: boolean;
+  error?: string;
+};
+
+export type JobEvent =
+  | {
+      type: "file";
+      index: number;
+      state: FileState;
+      // The upload position and the state of everything that came from it.
+      source: number;
+      sourceState: FileState;
+      report?: FileReport;
+    }
+  | { type: "status"; status: JobStatus; error?: string };
+
+export type JobStore = {
+  create: (job: Job) => Promise<void>;
+  get: (id: string) => Promise<Job | undefined>;
+  update: (id: string, update: (job: Job) => void) => Promise<Job | undefined>;
+  delete: (id: string) => Promise<void>;
+  publish: (id: string, event: JobEvent) => void;
+  subscribe: (id: string, listener: (event: JobEvent) => void) => () => void;
+};
+
+export function isFinished(status: JobStatus) {
+  return status === "done" || status === "failed" || status === "cancelled";
+}
+
+export function releaseOutputs(job: Job) {
+  job.outputs = [];
+  job.released = true;
+}
+
+// An upload is done once every image from it is, and failed once they have all finished
+// and any of them failed.
+export function sourceState(job: Job, source: number): FileState {
+  const states = job.fileStates.filter((_, index) => job.sources[index] === source);
+  if (states.every((state) => state === "done")) return "done";
+  if (states.every((state) => state === "done" || state === "failed")) return "failed";
+  if (states.every((state) => state === "pending")) return "pending";
+  return "processing";
+}
+
+export function fileEvent(job: Job, index: number): JobEvent {
+  const source = job.sources[index];
+  return {
+    type: "file",
+    index,
+    state: job.fileStates[index],
+    source,
+    sourceState: sourceState(job, source),
+    report: job.reports[index] ?? undefined,
+  };
+}
+
+export function jobSummary(job: Job) {
+  return {
+    id: job.id,
+    status: job.status,
+    createdAt: job.createdAt,
+    total: job.fileStates.length,
+    completed: job.fileStates.filter((state) => state === "done" || state === "failed")
+      .length,
+    fileStates: job.fileStates,
+    sources: job.sources,
+    files: job.reports,
+    error: job.error,
+  };
+}